@@ -0,0 +1,19 @@
+import { DecisionError } from "@/lib/decision/errors";
+import { loadCalibration } from "@/lib/decision/journal";
+import { assertConfigured } from "@/lib/decision/pipeline";
+
+// Reads fresh outcomes on every request instead of being rendered once at build time
+export const dynamic = "force-dynamic";
+
+// Outcome and calibration stats over every reviewed decision, plus the reviews that are due
+export async function GET() {
+  try {
+    assertConfigured();
+
+    return Response.json(await loadCalibration());
+
+  } catch (e: any) {
+    console.error("❌ CALIBRATION ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { clarifyingQuestions } from "@/lib/decision/clarify";
+import { DecisionError } from "@/lib/decision/errors";
+import { sanitizeRequest } from "@/lib/decision/pipeline";
+import { resolveModel } from "@/lib/llm/providers";
+
+// Asked before /api/decide: returns the questions that would make the problem
+// specific enough to decide, or none when it already is.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const input = sanitizeRequest(body);
+    if (!input.problem.trim() || input.options.filter((option) => option.trim()).length < 2) {
+      throw new DecisionError("A problem and at least two options are required.", 400);
+    }
+
+    const model = resolveModel({ provider: input.provider, model: input.model }, 0.1);
+    try {
+      const questions = await clarifyingQuestions(input.problem, input.options, model);
+      return Response.json({ questions });
+    } catch (e: any) {
+      // Clarifying is a convenience: without it the analysis simply runs on the problem as given
+      console.error("⚠️ Clarifying questions failed, skipping:", e.message);
+      return Response.json({ questions: [] });
+    }
+
+  } catch (e: any) {
+    console.error("❌ CLARIFY ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+  }
+}
@@ -1,168 +1,66 @@
-import { createClient } from '@supabase/supabase-js';
-import { ChatGroq } from "@langchain/groq";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
-import { PromptTemplate } from "@langchain/core/prompts";
-
-// --- HELPER: SUPER CLEANER ---
-function cleanAndParseJSON(text: string): any {
-  try {
-    // 1. Remove Markdown code blocks
-    let clean = text.replace(/(\`\`\`json|\`\`\`)/g, "");
-
-    // 2. Find the first '{' and last '}'
-    const start = clean.indexOf('{');
-    const end = clean.lastIndexOf('}');
-    if (start !== -1 && end !== -1) {
-      clean = clean.substring(start, end + 1);
-    }
-
-    // 3. FIX: Replace Python-style triple quotes with standard double quotes
-    clean = clean.replace(/"""/g, '"');
-
-    // 4. FIX: Escape unescaped newlines (turn real line breaks into \n)
-    clean = clean.replace(/(?<!\\)\n/g, "\\n");
-
-    // 5. Handle Tab characters
-    clean = clean.replace(/\t/g, "\\t");
-
-    return JSON.parse(clean);
-  } catch (e) {
-    console.error("JSON PARSE FAILED, attempting regex fallback:", text);
-    
-    // Fallback Regex Extraction
-    const recMatch = text.match(/"recommendation":\s*"([^"]*?)"/);
-    const shortMatch = text.match(/"short_reason":\s*"([^"]*?)"/);
-    // For detailed reasoning, grab everything after the key, removing simple quote wrappers if they exist
-    const detailMatch = text.match(/"detailed_reasoning":\s*"?([\s\S]*?)"?\s*}/) || text.match(/"detailed_reasoning":\s*([\s\S]*)/);
+import { DecisionError } from "@/lib/decision/errors";
+import { saveDecision } from "@/lib/decision/history";
+import { assertConfigured, runDecision, sanitizeRequest } from "@/lib/decision/pipeline";
+import { SSE_HEADERS, encodeEvent, wantsEventStream } from "@/lib/decision/sse";
+import type { DecisionEvent, DecisionRequest, DecisionResult } from "@/lib/decision/types";
+import { recordRun } from "@/lib/prompts/runs";
+
+function errorStatus(e: any): number {
+  return e instanceof DecisionError ? e.status : 500;
+}
 
-    return {
-      recommendation: recMatch ? recMatch[1] : "Analysis Complete",
-      short_reason: shortMatch ? shortMatch[1] : "See detailed reasoning below.",
-      detailed_reasoning: detailMatch ? detailMatch[1].trim().replace(/^"|"$|}$/g, '') : text // Fallback to full text if all else fails
-    };
-  }
+// Stores the run for prompt experiments and the decision for the history
+// page; the result is returned either way
+async function store(input: DecisionRequest, result: DecisionResult): Promise<DecisionResult> {
+  const runId = await recordRun(input, result);
+  const withRun = runId ? { ...result, runId } : result;
+  const decisionId = await saveDecision(input, withRun);
+  return decisionId ? { ...withRun, decisionId } : withRun;
 }
-// -----------------------------
 
-const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const GROQ_KEY = process.env.GROQ_API_KEY;
-const GOOGLE_KEY = process.env.GOOGLE_API_KEY;
+// --- STREAMING MODE ---
+// Emits stage events, partial results while the model is still writing,
+// and finally the complete result (or an error event).
+function streamDecision(input: DecisionRequest): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: DecisionEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      try {
+        const result = await store(input, await runDecision(input, send));
+        send({ type: "result", result });
+      } catch (e: any) {
+        console.error("❌ CRITICAL ERROR:", e);
+        send({ type: "error", error: e.message || "Unknown Server Error", status: errorStatus(e) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
 
 export async function POST(req: Request) {
   console.log("--------------- API REQUEST STARTED ---------------");
 
-  if (!SUPABASE_URL || !SUPABASE_KEY || !GROQ_KEY || !GOOGLE_KEY) {
-    return Response.json({ error: "Missing API Keys" }, { status: 500 });
-  }
-
   try {
-    const body = await req.json();
-    const problem = (body.problem || "").replace(/[\x00-\x1F\x7F]/g, "");
-    const options = (body.options || []).map((o: string) => o.replace(/[\x00-\x1F\x7F]/g, ""));
+    assertConfigured();
 
-    // --- STEP 1: EMBEDDING (Google) ---
-    console.log("🧠 Generating Embedding...");
-    const embeddings = new GoogleGenerativeAIEmbeddings({
-      apiKey: GOOGLE_KEY,
-      modelName: "text-embedding-004", // Ensure this matches your script
-    });
-
-    let vector;
-    try {
-      vector = await embeddings.embedQuery(problem);
-    } catch (err: any) {
-      console.error("❌ Google Embedding Failed:", err.message);
-      return Response.json({ error: "Embedding service busy." }, { status: 503 });
-    }
-
-    // --- STEP 2: RETRIEVAL ---
-    console.log("🔍 Searching Knowledge Base...");
-    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
-    
-    // Check if we get results
-    const { data: documents, error } = await supabase.rpc('match_documents', {
-      query_embedding: vector,
-      match_threshold: 0.1, 
-      match_count: 10 
-    });
-
-    if (error) {
-      console.error("Supabase Error:", error);
-      throw new Error("Database search failed.");
-    }
-
-    // Handle "No Results"
-    if (!documents || documents.length === 0) {
-      return Response.json({
-        recommendation: "Unable to analyze.",
-        short_reason: "No relevant frameworks found in your library.",
-        detailed_reasoning: "The system searched your uploaded books but could not find a mental model that applies to this specific problem."
-      });
-    }
-
-    const contextText = documents.map((doc: any) => doc.content).join("\n---\n");
-    console.log(`✅ Found ${documents.length} book chunks.`);
-
-    // --- STEP 3: REASONING (Groq) ---
-    console.log("🤖 Asking Groq (Llama 3.1)...");
-    
-    const model = new ChatGroq({
-      apiKey: GROQ_KEY,
-      model: "llama-3.1-8b-instant",
-      temperature: 0.1, 
-    });
-
-    const prompt = PromptTemplate.fromTemplate(`
-      You are an expert decision consultant.
-      
-      User Problem: {problem}
-      User Options: {options}
-      
-      CONTEXT FROM LIBRARY (STRICT):
-      {context}
-      
-      Instructions:
-      1. Select one option.
-      2. "recommendation": The option text.
-      3. "short_reason": 2 sentences max.
-      4. "detailed_reasoning": A comprehensive analysis (Min 150 words).
-         - Identify the specific mental models found in the context.
-         - Do NOT force a framework if it is not in the context.
-         - Use standard paragraphs separated by newlines.
-         - Do NOT use Markdown formatting (no bolding or asterisks).
-      5. CRITICAL JSON RULES:
-         - Return valid JSON only.
-         - Use standard double quotes (") for strings.
-         - DO NOT use triple quotes (""").
-         - Escape all newlines inside strings as "\\n".
-    `);
-
-    const formattedPrompt = await prompt.format({
-      context: contextText,
-      problem: problem,
-      options: options.join(", "),
-    });
+    const body = await req.json();
+    const input = sanitizeRequest(body);
 
-    const response = await model.invoke(formattedPrompt);
-    const rawOutputString = response.content as string; 
-    
-    // --- ROBUST PARSE WITH DEBUGGING ---
-    let result;
-    try {
-      result = cleanAndParseJSON(rawOutputString);
-    } catch (e) {
-      console.error("❌ JSON Parse Failed!");
-      console.log("--------------- RAW AI OUTPUT START ---------------");
-      console.log(rawOutputString);
-      console.log("--------------- RAW AI OUTPUT END -----------------");
-      throw new Error("AI returned invalid JSON format. Check server logs.");
+    if (wantsEventStream(req, body)) {
+      return streamDecision(input);
     }
 
+    const result = await store(input, await runDecision(input));
     return Response.json(result);
 
   } catch (e: any) {
     console.error("❌ CRITICAL ERROR:", e);
-    return Response.json({ error: e.message || "Unknown Server Error" }, { status: 500 });
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: errorStatus(e) });
   }
-}
\ No newline at end of file
+}
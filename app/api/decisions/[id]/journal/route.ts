@@ -0,0 +1,43 @@
+import { DecisionError } from "@/lib/decision/errors";
+import { addReview, listReviews, sanitizeReview } from "@/lib/decision/journal";
+import { assertConfigured } from "@/lib/decision/pipeline";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Context = { params: { id: string } };
+
+function errorResponse(e: any): Response {
+  console.error("❌ JOURNAL ERROR:", e);
+  return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+}
+
+// The journal entries of one decision, oldest first
+export async function GET(_req: Request, { params }: Context) {
+  try {
+    assertConfigured();
+
+    if (!UUID.test(params.id)) {
+      throw new DecisionError("Unknown decision.", 404);
+    }
+    return Response.json({ entries: await listReviews(params.id) });
+
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+// Records what the user chose and how it turned out
+export async function POST(req: Request, { params }: Context) {
+  try {
+    assertConfigured();
+
+    if (!UUID.test(params.id)) {
+      throw new DecisionError("Unknown decision.", 404);
+    }
+    const review = sanitizeReview(await req.json());
+    return Response.json({ entry: await addReview(params.id, review) });
+
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,21 @@
+import { DecisionError } from "@/lib/decision/errors";
+import { getDecision } from "@/lib/decision/history";
+import { assertConfigured } from "@/lib/decision/pipeline";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// One stored decision with its full result, for the read-only view
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    assertConfigured();
+
+    if (!UUID.test(params.id)) {
+      throw new DecisionError("Unknown decision.", 404);
+    }
+    return Response.json(await getDecision(params.id));
+
+  } catch (e: any) {
+    console.error("❌ HISTORY ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { DecisionError } from "@/lib/decision/errors";
+import { listDecisions, parseHistoryFilters } from "@/lib/decision/history";
+import { assertConfigured } from "@/lib/decision/pipeline";
+
+// Lists past decisions, newest first: ?q=&mode=&template=&outcome=&page=
+export async function GET(req: Request) {
+  try {
+    assertConfigured();
+
+    const filters = parseHistoryFilters(new URL(req.url).searchParams);
+    return Response.json(await listDecisions(filters));
+
+  } catch (e: any) {
+    console.error("❌ HISTORY ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { DecisionError } from "@/lib/decision/errors";
+import { assertConfigured } from "@/lib/decision/pipeline";
+import { recordFeedback } from "@/lib/prompts/runs";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_COMMENT_LENGTH = 2000;
+
+// Rates a stored run, so prompt versions can be compared on user feedback
+export async function POST(req: Request) {
+  try {
+    assertConfigured();
+
+    const body = await req.json();
+    if (typeof body.runId !== "string" || !UUID.test(body.runId)) {
+      throw new DecisionError("A valid runId is required.", 400);
+    }
+    if (typeof body.helpful !== "boolean") {
+      throw new DecisionError("helpful must be true or false.", 400);
+    }
+    const comment = typeof body.comment === "string" ? body.comment.trim().slice(0, MAX_COMMENT_LENGTH) : undefined;
+
+    await recordFeedback(body.runId, body.helpful, comment);
+    return Response.json({ ok: true });
+
+  } catch (e: any) {
+    console.error("❌ FEEDBACK ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { DecisionError } from "@/lib/decision/errors";
+import { runFollowUp, sanitizeFollowUp, type FollowUpEvent, type FollowUpRequest } from "@/lib/decision/followup";
+import { SSE_HEADERS, encodeEvent, wantsEventStream } from "@/lib/decision/sse";
+
+function errorStatus(e: any): number {
+  return e instanceof DecisionError ? e.status : 500;
+}
+
+// --- STREAMING MODE ---
+// Emits stage events, the answer as it is written, then the final result.
+function streamFollowUp(input: FollowUpRequest): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: FollowUpEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      try {
+        const result = await runFollowUp(input, send);
+        send({ type: "result", result });
+      } catch (e: any) {
+        console.error("❌ FOLLOW-UP ERROR:", e);
+        send({ type: "error", error: e.message || "Unknown Server Error", status: errorStatus(e) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+// A follow-up question on a finished decision. The client holds the
+// conversation state and sends it with every question.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const input = sanitizeFollowUp(body);
+
+    if (wantsEventStream(req, body)) {
+      return streamFollowUp(input);
+    }
+
+    const result = await runFollowUp(input);
+    return Response.json(result);
+
+  } catch (e: any) {
+    console.error("❌ FOLLOW-UP ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: errorStatus(e) });
+  }
+}
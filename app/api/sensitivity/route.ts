@@ -0,0 +1,23 @@
+import { extractAssumptions, sanitizeAssumptionRequest } from "@/lib/decision/assumptions";
+import { DecisionError } from "@/lib/decision/errors";
+import { isProviderId, resolveModel } from "@/lib/llm/providers";
+
+// Names the key assumptions behind a finished decision's scores, with ranges
+// and score impacts. Re-ranking as they are varied happens in the browser.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const input = sanitizeAssumptionRequest(body);
+    if (body.provider !== undefined && body.provider !== null && !isProviderId(body.provider)) {
+      throw new DecisionError(`Unknown LLM provider "${body.provider}".`, 400);
+    }
+
+    const model = resolveModel({ provider: body.provider || undefined, model: typeof body.model === "string" ? body.model : undefined }, 0.1);
+    const assumptions = await extractAssumptions(input, model);
+    return Response.json({ assumptions });
+
+  } catch (e: any) {
+    console.error("❌ SENSITIVITY ERROR:", e);
+    return Response.json({ error: e.message || "Unknown Server Error" }, { status: e instanceof DecisionError ? e.status : 500 });
+  }
+}
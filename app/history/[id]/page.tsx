@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { DecisionJournal } from '@/components/decision/decision-journal';
+import { DecisionReport } from '@/components/decision/decision-report';
+import type { SavedDecision } from '@/lib/decision/history';
+
+// A past decision as it was answered; only the journal below it can be added to
+export default function SavedDecisionView({ params }: { params: { id: string } }) {
+  const [decision, setDecision] = useState<SavedDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/decisions/${params.id}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Could not load the decision');
+        setDecision(body);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Could not load the decision'));
+  }, [params.id]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8 font-sans">
+      <div className="max-w-2xl mx-auto space-y-8">
+        <Link href="/history" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800">
+          <ArrowLeft className="h-4 w-4" /> All decisions
+        </Link>
+
+        {error && <p className="text-center text-red-700">{error}</p>}
+
+        {!decision && !error && (
+          <p className="flex items-center justify-center gap-2 text-gray-500"><Loader2 className="animate-spin h-5 w-5" /> Loading…</p>
+        )}
+
+        {decision && (
+          <>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+              <p className="text-xs text-gray-500">
+                Decided {new Date(decision.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} · read-only
+              </p>
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-1">Problem</h2>
+                <p className="text-gray-900 whitespace-pre-wrap">{decision.problem}</p>
+              </div>
+              {decision.clarifications.length > 0 && (
+                <div>
+                  <h2 className="text-sm font-medium text-gray-700 mb-1">Clarifications</h2>
+                  <ul className="space-y-1 text-sm">
+                    {decision.clarifications.map((entry, idx) => (
+                      <li key={idx}>
+                        <span className="text-gray-500">{entry.question}</span> <span className="text-gray-900">{entry.answer}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-1">Options</h2>
+                <ol className="list-decimal pl-5 space-y-1 text-gray-900">
+                  {decision.options.map((option, idx) => <li key={idx}>{option}</li>)}
+                </ol>
+              </div>
+            </div>
+
+            <DecisionReport result={decision.result} />
+
+            <DecisionJournal
+              decisionId={decision.id}
+              options={decision.options}
+              recommendation={decision.abstained ? null : decision.recommendation}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
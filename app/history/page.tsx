@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, LineChart, Loader2, Search } from 'lucide-react';
+import type { DecisionSummary, HistoryFilters, HistoryPage } from '@/lib/decision/history';
+import { DECISION_TEMPLATES, getTemplate } from '@/lib/decision/templates';
+import { UNABLE_TO_ANALYZE, type DecisionMode } from '@/lib/decision/types';
+
+const MODE_LABELS: Record<DecisionMode, string> = {
+  standard: 'Standard',
+  mcda: 'Weighted (MCDA)',
+  debate: 'Debate',
+  premortem: 'Pre-mortem',
+};
+
+type Filters = Omit<HistoryFilters, 'page'>;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+function DecisionRow({ decision }: { decision: DecisionSummary }) {
+  return (
+    <Link
+      href={`/history/${decision.id}`}
+      className="block bg-white p-4 rounded-xl shadow-sm border border-gray-100 hover:border-blue-300 transition-colors"
+    >
+      <p className="text-xs text-gray-500">
+        {formatDate(decision.created_at)} · {MODE_LABELS[decision.mode]}
+        {decision.template && ` · ${getTemplate(decision.template).label}`}
+        {` · ${decision.options.length} options`}
+      </p>
+      <p className="mt-1 text-gray-900 line-clamp-2">{decision.problem}</p>
+      <p className={`mt-2 text-sm font-semibold ${decision.abstained ? 'text-yellow-800' : 'text-green-800'}`}>
+        {decision.abstained ? UNABLE_TO_ANALYZE : `→ ${decision.recommendation}`}
+        {decision.confidence !== null && !decision.abstained && (
+          <span className="ml-2 font-normal text-gray-500">{Math.round(decision.confidence * 100)}% confidence</span>
+        )}
+      </p>
+    </Link>
+  );
+}
+
+// Past decisions, newest first, with full-text search and filters
+export default function DecisionHistory() {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<Filters>({});
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<HistoryPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(page) });
+    (Object.keys(filters) as (keyof Filters)[]).forEach((key) => {
+      const value = filters[key];
+      if (value) params.set(key, value);
+    });
+
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/decisions?${params}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Could not load the history');
+        if (!cancelled) {
+          setData(body);
+          setError(null);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page]);
+
+  // Any change of filters starts again from the first page
+  const updateFilters = (next: Partial<Filters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+    setPage(1);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: query.trim() || undefined });
+  };
+
+  const pages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8 font-sans">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800">
+            <ArrowLeft className="h-4 w-4" /> New decision
+          </Link>
+          <div className="mt-2 flex items-center justify-between gap-4">
+            <h1 className="text-3xl font-extrabold text-gray-900">Past decisions</h1>
+            <Link href="/journal" className="inline-flex items-center gap-1 text-sm font-medium text-blue-700 hover:underline">
+              <LineChart className="h-4 w-4" /> Journal &amp; calibration
+            </Link>
+          </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              className="flex-1 p-2 border rounded-md focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Search problems and recommendations"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <button type="submit" className="inline-flex items-center gap-1 px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700">
+              <Search className="h-4 w-4" /> Search
+            </button>
+          </form>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+            <select
+              className="p-2 border rounded-md bg-white"
+              value={filters.mode || ''}
+              onChange={(e) => updateFilters({ mode: (e.target.value || undefined) as DecisionMode | undefined })}
+            >
+              <option value="">All modes</option>
+              {(Object.keys(MODE_LABELS) as DecisionMode[]).map((mode) => (
+                <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <select
+              className="p-2 border rounded-md bg-white"
+              value={filters.template || ''}
+              onChange={(e) => updateFilters({ template: (e.target.value || undefined) as Filters['template'] })}
+            >
+              <option value="">All decision types</option>
+              {DECISION_TEMPLATES.map((entry) => (
+                <option key={entry.id} value={entry.id}>{entry.label}</option>
+              ))}
+            </select>
+            <select
+              className="p-2 border rounded-md bg-white"
+              value={filters.outcome || ''}
+              onChange={(e) => updateFilters({ outcome: (e.target.value || undefined) as Filters['outcome'] })}
+            >
+              <option value="">Any outcome</option>
+              <option value="recommended">Recommended an option</option>
+              <option value="abstained">Abstained</option>
+            </select>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-700">{error}</p>}
+
+        {loading && !data ? (
+          <p className="flex items-center justify-center gap-2 text-gray-500"><Loader2 className="animate-spin h-5 w-5" /> Loading…</p>
+        ) : data && data.decisions.length === 0 ? (
+          <p className="text-center text-gray-500">
+            {filters.q || filters.mode || filters.template || filters.outcome ? 'No decisions match these filters.' : 'No decisions yet.'}
+          </p>
+        ) : data && (
+          <div className={`space-y-3 ${loading ? 'opacity-50' : ''}`}>
+            <p className="text-xs text-gray-500">{data.total} decision{data.total === 1 ? '' : 's'}</p>
+            {data.decisions.map((decision) => <DecisionRow key={decision.id} decision={decision} />)}
+
+            {pages > 1 && (
+              <div className="flex items-center justify-between pt-2 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                  className="border px-3 py-1 rounded bg-white hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-gray-500">Page {page} of {pages}</span>
+                <button
+                  type="button"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pages || loading}
+                  className="border px-3 py-1 rounded bg-white hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, CalendarClock, Loader2 } from 'lucide-react';
+import { CalibrationChart, OutcomeTimeline } from '@/components/decision/calibration-charts';
+import type { CalibrationReport } from '@/lib/decision/journal';
+
+const percent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <p className="text-xs font-bold uppercase tracking-wide text-gray-500">{label}</p>
+      <p className="mt-1 text-2xl font-bold text-gray-900">{value}</p>
+      {hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+  );
+}
+
+// How the engine's recommendations held up, from the decision journal
+export default function JournalDashboard() {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/calibration')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Could not load the journal');
+        setReport(body);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Could not load the journal'));
+  }, []);
+
+  const stats = report?.stats;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8 font-sans">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <Link href="/history" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800">
+            <ArrowLeft className="h-4 w-4" /> Past decisions
+          </Link>
+          <h1 className="mt-2 text-3xl font-extrabold text-gray-900">Decision journal</h1>
+          <p className="mt-1 text-gray-600">How recommendations worked out, and whether the engine&apos;s confidence matched reality.</p>
+        </div>
+
+        {error && <p className="text-red-700">{error}</p>}
+
+        {!report && !error && (
+          <p className="flex items-center justify-center gap-2 text-gray-500"><Loader2 className="animate-spin h-5 w-5" /> Loading…</p>
+        )}
+
+        {report && report.due.length > 0 && (
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-blue-100 space-y-2">
+            <h2 className="flex items-center gap-2 font-semibold text-gray-800">
+              <CalendarClock className="h-5 w-5 text-blue-500" />
+              Due for review
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {report.due.map((entry) => (
+                <li key={entry.decision_id} className="flex justify-between gap-4">
+                  <Link href={`/history/${entry.decision_id}`} className="truncate text-blue-700 hover:underline">{entry.problem}</Link>
+                  <span className="shrink-0 text-gray-500">{entry.next_review_on}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {stats && (stats.resolved === 0 ? (
+          <p className="text-center text-gray-500">
+            No outcomes recorded yet{stats.pending > 0 ? ` (${stats.pending} decision${stats.pending === 1 ? '' : 's'} too early to tell)` : ''}.
+            Open a <Link href="/history" className="text-blue-700 hover:underline">past decision</Link> and add a journal entry once you know how it went.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <Stat label="Outcomes recorded" value={String(stats.resolved)} hint={stats.pending ? `${stats.pending} too early to tell` : undefined} />
+              <Stat label="Followed" value={percent(stats.followRate)} hint="of recommendations" />
+              <Stat label="Worked out when followed" value={percent(stats.successWhenFollowed)} />
+              <Stat label="Worked out otherwise" value={percent(stats.successWhenNotFollowed)} hint="when you chose differently" />
+              <Stat label="Brier score" value={stats.brierScore === null ? '–' : stats.brierScore.toFixed(2)} hint="0 is perfect, 0.25 a coin flip" />
+              <Stat label="Satisfaction" value={stats.meanSatisfaction === null ? '–' : `${stats.meanSatisfaction.toFixed(1)}/5`} />
+            </div>
+
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-2">
+              <h2 className="font-semibold text-gray-700">Calibration</h2>
+              <p className="text-sm text-gray-600">
+                Followed recommendations grouped by stated confidence. Mixed outcomes count as half. When the bars sit below the line, the engine was overconfident.
+              </p>
+              {stats.bins.length > 0
+                ? <CalibrationChart bins={stats.bins} />
+                : <p className="text-sm text-gray-500">No followed recommendation with a stated confidence has an outcome yet.</p>}
+            </div>
+
+            {stats.timeline.length > 0 && (
+              <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-2">
+                <h2 className="font-semibold text-gray-700">Over time</h2>
+                <OutcomeTimeline timeline={stats.timeline} />
+              </div>
+            )}
+          </>
+        ))}
+      </div>
+    </div>
+  );
+}
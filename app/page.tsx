@@ -1,15 +1,46 @@
 'use client';
 
 import { useState } from 'react';
-import { Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import Link from 'next/link';
+import { Loader2, Check, History } from 'lucide-react';
+import { ClarifyingQuestions } from '@/components/decision/clarifying-questions';
+import { CriteriaEditor, type CriterionDraft } from '@/components/decision/criteria-editor';
+import { DecisionReport } from '@/components/decision/decision-report';
+import { FollowUpChat } from '@/components/decision/follow-up-chat';
+import { RunFeedback } from '@/components/decision/run-feedback';
+import { SensitivityPanel } from '@/components/decision/sensitivity-panel';
+import { SuggestedOptions } from '@/components/decision/suggested-options';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { Clarification, ClarifyingQuestion } from '@/lib/decision/clarify';
+import { readEventStream } from '@/lib/decision/sse';
+import { DECISION_TEMPLATES, getTemplate, type TemplateId } from '@/lib/decision/templates';
+import { UNABLE_TO_ANALYZE, type DecisionEvent, type DecisionResult } from '@/lib/decision/types';
 // Removed: import ReactMarkdown from 'react-markdown';
 
+type StageEvent = Extract<DecisionEvent, { type: 'stage' }>;
+
+const CONSISTENCY_SAMPLES = 5;
+
 export default function DecisionTool() {
   const [problem, setProblem] = useState('');
   const [options, setOptions] = useState(['', '']);
-  const [result, setResult] = useState<any>(null);
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([]);
+  // Empty means the server classifies the problem
+  const [templateId, setTemplateId] = useState<TemplateId | ''>('');
+  const [challenge, setChallenge] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<'auto' | 'debate' | 'premortem'>('auto');
+  const [checkConsistency, setCheckConsistency] = useState(false);
+  const [askFirst, setAskFirst] = useState(true);
+  const [expandOptions, setExpandOptions] = useState(false);
+  // The clarifying Q&A for the current submission; null when none was asked
+  const [questions, setQuestions] = useState<ClarifyingQuestion[] | null>(null);
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [analysisStarted, setAnalysisStarted] = useState(false);
+  // What the current result was asked about, for follow-up questions
+  const [decided, setDecided] = useState<{ problem: string; options: string[]; clarifications: Clarification[] } | null>(null);
+  const [result, setResult] = useState<Partial<DecisionResult> | null>(null);
   const [loading, setLoading] = useState(false);
-  const [showDetails, setShowDetails] = useState(false);
+  const [stages, setStages] = useState<StageEvent[]>([]);
 
   const handleOptionChange = (index: number, value: string) => {
     const newOptions = [...options];
@@ -18,6 +49,12 @@ export default function DecisionTool() {
   };
 
   const addOption = () => setOptions([...options, '']);
+
+  // Fills the first empty option field, or adds one
+  const addSuggestedOption = (option: string) => {
+    const empty = options.findIndex(o => o.trim() === "");
+    setOptions(empty === -1 ? [...options, option] : options.map((o, i) => (i === empty ? option : o)));
+  };
   
   const removeOption = (index: number) => {
     if (options.length > 2) {
@@ -33,47 +70,118 @@ export default function DecisionTool() {
     "Reassign Sarah to a solo contributor role where her brilliance can be utilized without direct team interaction, if such a role exists and is viable."
   ];
 
+  const template = templateId ? getTemplate(templateId) : null;
+
+  // Replaces the empty option fields with the template's scaffolds, keeping anything already typed
+  const applyScaffolds = () => {
+    if (!template) return;
+    setOptions([...options.filter(o => o.trim() !== ""), ...template.optionScaffolds]);
+  };
+
   const handleLoadExample = () => {
     setProblem(EXAMPLE_PROBLEM);
     setOptions(EXAMPLE_OPTIONS);
     setResult(null); // Clear previous results when loading example
-    setShowDetails(false);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setResult(null);
+    setQuestions(null);
+    setAnalysisStarted(false);
+
+    if (askFirst) {
+      setLoading(true);
+      try {
+        const response = await fetch('/api/clarify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ problem, options: options.filter(o => o.trim() !== "") }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Could not check the problem");
+        if (data.questions.length > 0) {
+          // Wait for the answers before analyzing
+          setQuestions(data.questions);
+          setAnswers(data.questions.map(() => ''));
+          setLoading(false);
+          return;
+        }
+      } catch (error: any) {
+        console.error(error);
+        alert("Error: " + error.message);
+        setLoading(false);
+        return;
+      }
+    }
+
+    await runAnalysis([]);
+  };
+
+  const continueWithAnswers = () => runAnalysis(
+    (questions || [])
+      .map((q, idx) => ({ question: q.question, answer: answers[idx].trim() }))
+      .filter(entry => entry.answer !== "")
+  );
+
+  const runAnalysis = async (clarifications: Clarification[]) => {
     setLoading(true);
     setResult(null);
-    setShowDetails(false);
+    setAnalysisStarted(true);
+    setStages([]);
+    setDecided({ problem, options: options.filter(o => o.trim() !== ""), clarifications });
+
+    // Any filled-in criterion switches the analysis to weighted (MCDA) mode,
+    // unless another mode was picked
+    const weightedCriteria = criteria
+      .filter(c => c.label.trim() !== "" && Number(c.weight) > 0)
+      .map(c => ({ label: c.label.trim(), weight: Number(c.weight) }));
 
     try {
       const response = await fetch('/api/decide', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ problem, options: options.filter(o => o.trim() !== "") }),
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({
+          problem,
+          options: options.filter(o => o.trim() !== ""),
+          mode: analysisMode !== 'auto' ? analysisMode : weightedCriteria.length > 0 ? 'mcda' : 'standard',
+          criteria: weightedCriteria,
+          template: templateId || undefined,
+          clarifications,
+          challenge,
+          expandOptions,
+          samples: checkConsistency ? CONSISTENCY_SAMPLES : 1,
+          stream: true,
+        }),
       });
       
-      const rawData = await response.json();
-      
+      // Errors raised before the stream opens (e.g. missing keys) still come back as JSON
       if (!response.ok) {
+        const rawData = await response.json();
         throw new Error(rawData.error || "Analysis failed");
       }
       
-      // --- SMART ADAPTER ---
-      // This ensures we display text regardless of what keys the AI decided to use
-      const adaptedResult = {
-        recommendation: rawData.recommendation || rawData.selected_option || "Decision Made",
-        short_reason: rawData.short_reason || rawData.rationale || rawData.reasoning || "View details for reasoning.",
-        detailed_reasoning: rawData.detailed_reasoning || rawData.rationale || "No detailed context provided."
-      };
-      // ---------------------
-
-      setResult(adaptedResult);
+      let streamError: string | null = null;
+      await readEventStream(response, (event) => {
+        if (event.type === 'stage') {
+          setStages((prev) => [...prev, event]);
+        } else if (event.type === 'partial') {
+          // Render fields as soon as the model has written them
+          setResult((prev) => ({ ...prev, ...event.result }));
+        } else if (event.type === 'result') {
+          setResult(event.result);
+        } else if (event.type === 'error') {
+          streamError = event.error;
+        }
+      });
+
+      if (streamError) throw new Error(streamError);
     } catch (error: any) {
       console.error(error);
       alert("Error: " + error.message);
     } finally {
       setLoading(false);
+      setStages([]);
     }
   };
 
@@ -89,6 +197,12 @@ export default function DecisionTool() {
           >
             ✨ Try with Example
           </button>
+          <Link
+            href="/history"
+            className="mt-4 ml-3 inline-flex items-center gap-1 px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <History className="h-4 w-4" /> Past decisions
+          </Link>
         </div>
 
         {/* Pro Tip Banner */}
@@ -121,6 +235,21 @@ export default function DecisionTool() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-2">Decision Type</label>
+              <select
+                className="w-full p-2 border rounded-md bg-white focus:ring-blue-500 focus:border-blue-500"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value as TemplateId | '')}
+              >
+                <option value="">Auto-detect from the problem</option>
+                {DECISION_TEMPLATES.map((entry) => (
+                  <option key={entry.id} value={entry.id}>{entry.label}</option>
+                ))}
+              </select>
+              {template && <p className="mt-1 text-xs text-gray-500">{template.description}</p>}
+            </div>
+
             <div className="space-y-3">
               <label className="block text-sm font-bold text-gray-700">Options</label>
               {options.map((opt, idx) => (
@@ -138,13 +267,53 @@ export default function DecisionTool() {
                   )}
                 </div>
               ))}
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-2">
+                {template && template.optionScaffolds.length > 0 && (
+                  <button type="button" onClick={applyScaffolds} className="text-sm border px-3 py-1 rounded hover:bg-gray-50 text-gray-700">
+                    Use {template.label.toLowerCase()} scaffolds
+                  </button>
+                )}
                  <button type="button" onClick={addOption} className="text-sm border px-3 py-1 rounded hover:bg-gray-50 text-gray-700">
                   + Add Option
                 </button>
               </div>
             </div>
 
+            <CriteriaEditor criteria={criteria} onChange={setCriteria} />
+
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-2">Analysis Mode</label>
+              <select
+                className="w-full p-2 border rounded-md bg-white focus:ring-blue-500 focus:border-blue-500"
+                value={analysisMode}
+                onChange={(e) => setAnalysisMode(e.target.value as typeof analysisMode)}
+              >
+                <option value="auto">Standard (weighted when criteria are set)</option>
+                <option value="debate">Debate: one advocate per option, judged (for high-stakes decisions)</option>
+                <option value="premortem">Pre-mortem: how the chosen option could fail in 12 months</option>
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <Checkbox checked={askFirst} onCheckedChange={(checked) => setAskFirst(checked === true)} />
+              Ask me clarifying questions when the problem is vague
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <Checkbox checked={checkConsistency} onCheckedChange={(checked) => setCheckConsistency(checked === true)} />
+              Check consistency: sample the decision {CONSISTENCY_SAMPLES} times and vote
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <Checkbox checked={expandOptions} onCheckedChange={(checked) => setExpandOptions(checked === true)} />
+              Suggest options I may have missed
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <Checkbox checked={challenge} onCheckedChange={(checked) => setChallenge(checked === true)} />
+              Challenge the recommendation with a devil&apos;s advocate
+            </label>
+
             <button
               type="submit"
               disabled={loading}
@@ -155,39 +324,67 @@ export default function DecisionTool() {
           </form>
         </div>
 
+        {questions && (
+          <ClarifyingQuestions
+            questions={questions}
+            answers={answers}
+            onChange={setAnswers}
+            onContinue={continueWithAnswers}
+            onSkip={() => runAnalysis([])}
+            locked={analysisStarted}
+            loading={loading}
+          />
+        )}
+
+        {loading && stages.length > 0 && (
+          <ul className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-2 text-sm text-gray-700">
+            {stages.map((stage, idx) => (
+              <li key={idx} className="flex items-center gap-2">
+                {idx === stages.length - 1
+                  ? <Loader2 className="animate-spin h-4 w-4 text-blue-500" />
+                  : <Check className="h-4 w-4 text-green-600" />}
+                {stage.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {result && (
           <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <div className={`p-6 rounded-xl text-center border ${result.recommendation === 'Unable to analyze.' ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
-              <h2 className={`text-sm font-bold uppercase tracking-wide mb-2 ${result.recommendation === 'Unable to analyze.' ? 'text-yellow-800' : 'text-green-800'}`}>
-                {result.recommendation === 'Unable to analyze.' ? 'Result' : 'Recommendation'}
-              </h2>
-              <div className="text-2xl font-bold text-gray-900 mb-2">{result.recommendation}</div>
-              <p className="text-gray-700">{result.short_reason}</p>
-            </div>
-
-            <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
-              <button 
-                onClick={() => setShowDetails(!showDetails)}
-                className="w-full flex justify-between items-center p-4 bg-gray-50 hover:bg-gray-100 transition-colors"
-              >
-                <span className="font-semibold text-gray-700">View Detailed Reasoning</span>
-                {showDetails ? <ChevronUp className="h-5 w-5 text-gray-500"/> : <ChevronDown className="h-5 w-5 text-gray-500"/>}
-              </button>
-              
-              {showDetails && (
-                <div className="p-6 text-gray-700 prose prose-sm max-w-none border-t bg-white">
-                  <div className="whitespace-pre-wrap leading-relaxed">
-                    {result.detailed_reasoning.replace(/\\n/g, '\n').split('\n').map((paragraph: string, index: number) => (
-                      paragraph.trim() && (
-                        <p key={index} className="mb-4 last:mb-0">
-                          {paragraph}
-                        </p>
-                      )
-                    ))}
-                  </div>
-                </div>
+            <DecisionReport
+              result={result}
+              feedback={result.runId && <RunFeedback key={result.runId} runId={result.runId} />}
+              suggestions={result.suggestions && result.suggestions.length > 0 && (
+                <SuggestedOptions
+                  suggestions={result.suggestions}
+                  sources={result.sources || []}
+                  options={options}
+                  onAdd={addSuggestedOption}
+                  onRerun={() => runAnalysis(decided?.clarifications || [])}
+                />
               )}
-            </div>
+              whatIf={!loading && decided && result.model && result.recommendation && result.scores && result.scores.length > 0 && result.criteria && (
+                <SensitivityPanel
+                  problem={decided.problem}
+                  clarifications={decided.clarifications}
+                  options={decided.options}
+                  criteria={result.criteria}
+                  scores={result.scores}
+                  recommendation={result.recommendation}
+                />
+              )}
+            />
+
+            {!loading && decided && result.model && result.recommendation && result.recommendation !== UNABLE_TO_ANALYZE && (
+              <FollowUpChat
+                problem={decided.problem}
+                clarifications={decided.clarifications}
+                options={decided.options}
+                recommendation={result.recommendation}
+                shortReason={result.short_reason || ''}
+                sources={result.sources || []}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,59 @@
+'use client';
+
+import { Bar, CartesianGrid, ComposedChart, Line, LineChart, XAxis, YAxis } from 'recharts';
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import type { CalibrationBin, CalibrationPeriod } from '@/lib/decision/calibration';
+
+const chartConfig = {
+  confidence: { label: 'Stated confidence', color: 'hsl(var(--chart-1))' },
+  success: { label: 'Worked out', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const tooltip = (
+  <ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label}: ${percent(Number(value))}`} />
+);
+
+// Per confidence band, how often followed recommendations worked out against
+// what the engine claimed. Bars level with the line mean good calibration.
+export function CalibrationChart({ bins }: { bins: CalibrationBin[] }) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+      <ComposedChart data={bins}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis domain={[0, 1]} tickFormatter={percent} tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip content={tooltip} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="success" fill="var(--color-success)" radius={4} />
+        <Line dataKey="confidence" stroke="var(--color-confidence)" strokeWidth={2} dot />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
+
+// Month by month, by when the decision was made
+export function OutcomeTimeline({ timeline }: { timeline: CalibrationPeriod[] }) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+      <LineChart data={timeline}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="month" tickLine={false} axisLine={false} />
+        <YAxis domain={[0, 1]} tickFormatter={percent} tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip content={tooltip} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="success" stroke="var(--color-success)" strokeWidth={2} connectNulls />
+        <Line dataKey="confidence" stroke="var(--color-confidence)" strokeWidth={2} strokeDasharray="4 4" connectNulls />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { ShieldCheck, Swords, RefreshCw } from 'lucide-react';
+
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import type { Challenge } from '@/lib/decision/challenge';
+import { markCited, type Source } from '@/lib/decision/sources';
+
+interface ChallengePanelProps {
+  challenge: Challenge;
+  sources: Source[];
+  recommendation?: string;
+}
+
+// The devil's advocate critique of the recommendation and the reasoner's answer to it.
+export function ChallengePanel({ challenge, sources, recommendation }: ChallengePanelProps) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-4">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-700">
+        <Swords className="h-5 w-5 text-red-500" />
+        Challenge
+      </h3>
+
+      {challenge.changed ? (
+        <div className="flex items-start gap-2 rounded-md bg-orange-50 border border-orange-200 p-3 text-sm text-orange-800">
+          <RefreshCw className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>
+            The critique changed the recommendation from <strong>{challenge.original_recommendation}</strong> to <strong>{recommendation}</strong>.
+          </span>
+        </div>
+      ) : (
+        <div className="flex items-start gap-2 rounded-md bg-green-50 border border-green-200 p-3 text-sm text-green-800">
+          <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>The recommendation held up against the critique.</span>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-xs font-bold uppercase tracking-wide text-red-700 mb-2">
+          Strongest counterargument <span className="font-normal normal-case text-gray-400">({challenge.critic.provider} · {challenge.critic.model})</span>
+        </h4>
+        <div className="text-sm text-gray-700">
+          <CitedReasoning text={challenge.critique} sources={markCited(sources, challenge.critique)} />
+        </div>
+      </div>
+
+      {/* A revision is the detailed reasoning now; the superseded reasoning is kept here */}
+      {challenge.original_reasoning ? (
+        <div className="pt-4 border-t">
+          <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-2">
+            Superseded reasoning for {challenge.original_recommendation}
+          </h4>
+          <div className="text-sm text-gray-500">
+            <CitedReasoning text={challenge.original_reasoning} sources={markCited(sources, challenge.original_reasoning)} />
+          </div>
+        </div>
+      ) : (
+        <div className="pt-4 border-t">
+          <h4 className="text-xs font-bold uppercase tracking-wide text-blue-700 mb-2">{challenge.changed ? 'Revision' : 'Rebuttal'}</h4>
+          <div className="text-sm text-gray-700">
+            <CitedReasoning text={challenge.rebuttal} sources={markCited(sources, challenge.rebuttal)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { BookOpen } from 'lucide-react';
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { RetrievalChannel, Source } from '@/lib/decision/sources';
+
+const CHANNEL_LABELS: Record<RetrievalChannel, string> = {
+  vector: 'semantic match',
+  keyword: 'keyword match',
+  both: 'keyword + semantic match',
+};
+
+interface CitedReasoningProps {
+  text: string;
+  sources: Source[];
+}
+
+function Footnote({ source, label, onOpen }: { source?: Source; label: string; onOpen: (source: Source) => void }) {
+  if (!source) return <>{label}</>;
+
+  const number = source.key.slice(1);
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(source)}
+      title={`${source.book}: ${source.excerpt}`}
+      className="align-super text-[0.7em] font-bold text-blue-600 hover:text-blue-800 hover:underline px-0.5"
+    >
+      [{number}]
+    </button>
+  );
+}
+
+// Renders the reasoning with [S1]-style citation keys turned into clickable
+// footnotes, followed by the list of cited library passages.
+export function CitedReasoning({ text, sources }: CitedReasoningProps) {
+  const [openSource, setOpenSource] = useState<Source | null>(null);
+  const byKey = new Map(sources.map((source) => [source.key, source]));
+  const cited = sources.filter((source) => source.cited);
+
+  return (
+    <>
+      <div className="whitespace-pre-wrap leading-relaxed">
+        {text.replace(/\\n/g, '\n').split('\n').map((paragraph, index) => (
+          paragraph.trim() && (
+            <p key={index} className="mb-4 last:mb-0">
+              {paragraph.split(/(\[S\d+\])/).map((segment, segmentIndex) => {
+                const key = segment.match(/^\[(S\d+)\]$/)?.[1];
+                return key
+                  ? <Footnote key={segmentIndex} source={byKey.get(key)} label={segment} onOpen={setOpenSource} />
+                  : segment;
+              })}
+            </p>
+          )
+        ))}
+      </div>
+
+      {cited.length > 0 && (
+        <div className="mt-6 pt-4 border-t not-prose">
+          <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-2">Sources</h4>
+          <ol className="space-y-1 text-sm">
+            {cited.map((source) => (
+              <li key={source.key}>
+                <button type="button" onClick={() => setOpenSource(source)} className="flex items-start gap-2 text-left hover:text-blue-700">
+                  <span className="font-bold text-blue-600">[{source.key.slice(1)}]</span>
+                  <span>
+                    <span className="font-medium">{source.book}</span>
+                    <span className="text-gray-500"> · chunk #{source.id} · {Math.round(source.similarity * 100)}% similar · {CHANNEL_LABELS[source.channel]}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <Dialog open={openSource !== null} onOpenChange={(open) => !open && setOpenSource(null)}>
+        <DialogContent className="max-w-2xl">
+          {openSource && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5 text-blue-600" />
+                  {openSource.book}
+                </DialogTitle>
+                <DialogDescription>
+                  Citation [{openSource.key.slice(1)}] · chunk #{openSource.id} · {Math.round(openSource.similarity * 100)}% similar · found by {CHANNEL_LABELS[openSource.channel]}
+                  {openSource.options.length > 0 && ` · retrieved for ${openSource.options.map((option) => `"${option}"`).join(', ')}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap text-sm text-gray-700 leading-relaxed">
+                {openSource.content}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { HelpCircle, Loader2 } from 'lucide-react';
+
+import type { ClarifyingQuestion } from '@/lib/decision/clarify';
+
+interface ClarifyingQuestionsProps {
+  questions: ClarifyingQuestion[];
+  answers: string[];
+  onChange: (answers: string[]) => void;
+  onContinue: () => void;
+  onSkip: () => void;
+  // Once the analysis has started the answers are shown read-only
+  locked: boolean;
+  loading: boolean;
+}
+
+const ASPECT_LABELS: Record<ClarifyingQuestion['aspect'], string> = {
+  goals: 'Goals',
+  constraints: 'Constraints',
+  time_horizon: 'Time horizon',
+  stakeholders: 'Stakeholders',
+  other: 'Context',
+};
+
+// The inline Q&A between submitting a vague problem and its analysis.
+export function ClarifyingQuestions({ questions, answers, onChange, onContinue, onSkip, locked, loading }: ClarifyingQuestionsProps) {
+  const setAnswer = (index: number, value: string) => {
+    const next = [...answers];
+    next[index] = value;
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-blue-100 space-y-4">
+      <div>
+        <h3 className="flex items-center gap-2 font-semibold text-gray-800">
+          <HelpCircle className="h-5 w-5 text-blue-500" />
+          A few questions first
+        </h3>
+        <p className="text-sm text-gray-600">Your answers are added to the problem before it is analyzed. Leave any blank to skip it.</p>
+      </div>
+
+      {questions.map((question, index) => (
+        <div key={index}>
+          <label className="block text-sm text-gray-800 mb-1">
+            <span className="mr-2 rounded bg-blue-50 px-1.5 py-0.5 text-xs font-bold text-blue-700">{ASPECT_LABELS[question.aspect]}</span>
+            {question.question}
+          </label>
+          {locked ? (
+            <p className="text-sm text-gray-600 italic">{answers[index]?.trim() || 'Skipped'}</p>
+          ) : (
+            <input
+              className="w-full p-2 border rounded-md focus:ring-blue-500 focus:border-blue-500"
+              value={answers[index] || ''}
+              onChange={(e) => setAnswer(index, e.target.value)}
+            />
+          )}
+        </div>
+      ))}
+
+      {!locked && (
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onSkip} disabled={loading} className="text-sm border px-3 py-2 rounded hover:bg-gray-50 text-gray-700 disabled:opacity-50">
+            Skip and analyze
+          </button>
+          <button
+            type="button"
+            onClick={onContinue}
+            disabled={loading}
+            className="inline-flex items-center gap-2 text-sm font-bold px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading && <Loader2 className="animate-spin h-4 w-4" />}
+            Continue analysis
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+export interface CriterionDraft {
+  label: string;
+  weight: string;
+}
+
+interface CriteriaEditorProps {
+  criteria: CriterionDraft[];
+  onChange: (criteria: CriterionDraft[]) => void;
+}
+
+// Optional weighted criteria. When at least one is filled in, the analysis
+// runs in MCDA mode and the options are ranked by weighted score.
+export function CriteriaEditor({ criteria, onChange }: CriteriaEditorProps) {
+  const totalWeight = criteria.reduce((sum, c) => sum + (Number(c.weight) || 0), 0);
+
+  const update = (index: number, patch: Partial<CriterionDraft>) => {
+    onChange(criteria.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-bold text-gray-700">
+        Weighted Criteria <span className="font-normal text-gray-500">(optional)</span>
+      </label>
+      {criteria.length === 0 && (
+        <p className="text-sm text-gray-500">Add criteria such as &quot;cost 40%, speed 30%, team morale 30%&quot; to rank options by weighted score.</p>
+      )}
+      {criteria.map((criterion, idx) => (
+        <div key={idx} className="flex gap-2">
+          <input
+            className="flex-1 p-2 border rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder={`Criterion ${idx + 1} (e.g. 'Cost')`}
+            value={criterion.label}
+            onChange={(e) => update(idx, { label: e.target.value })}
+          />
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className="w-20 p-2 border rounded-md focus:ring-blue-500 focus:border-blue-500"
+              placeholder="%"
+              value={criterion.weight}
+              onChange={(e) => update(idx, { weight: e.target.value })}
+            />
+            <span className="text-gray-500">%</span>
+          </div>
+          <button type="button" onClick={() => onChange(criteria.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600 px-2">✕</button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center">
+        <span className={`text-xs ${criteria.length > 0 && totalWeight !== 100 ? 'text-yellow-700' : 'text-gray-500'}`}>
+          {criteria.length > 0 && `Total weight: ${totalWeight}%${totalWeight !== 100 ? ' (weights are normalized)' : ''}`}
+        </span>
+        <button type="button" onClick={() => onChange([...criteria, { label: '', weight: '' }])} className="text-sm border px-3 py-1 rounded hover:bg-gray-50 text-gray-700">
+          + Add Criterion
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { Gavel } from 'lucide-react';
+
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import type { Debate } from '@/lib/decision/debate';
+import { markCited, type Source } from '@/lib/decision/sources';
+import { cn } from '@/lib/utils';
+
+interface DebateTranscriptProps {
+  debate: Debate;
+  sources: Source[];
+  recommendation?: string;
+}
+
+// The advocates' arguments, one collapsible section per round.
+export function DebateTranscript({ debate, sources, recommendation }: DebateTranscriptProps) {
+  const rounds = Array.from(new Set(debate.turns.map((turn) => turn.round)));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-700">
+        <Gavel className="h-5 w-5 text-purple-600" />
+        Debate
+      </h3>
+      <p className="mt-1 text-xs text-gray-500">
+        One advocate per option ({debate.advocate.provider} · {debate.advocate.model}). The recommendation above is the judge&apos;s verdict; see Detailed Reasoning for the full ruling.
+      </p>
+
+      <Accordion type="multiple" className="mt-2">
+        {rounds.map((round) => {
+          const turns = debate.turns.filter((turn) => turn.round === round);
+          return (
+            <AccordionItem key={round} value={`round-${round}`}>
+              <AccordionTrigger className="text-sm">
+                Round {round}: {turns[0]?.kind === 'opening' ? 'Opening cases' : 'Rebuttals'}
+              </AccordionTrigger>
+              <AccordionContent className="space-y-4">
+                {turns.map((turn) => (
+                  <div
+                    key={turn.option}
+                    className={cn('rounded-lg border p-3', turn.option === recommendation ? 'border-green-200 bg-green-50/60' : 'border-gray-100')}
+                  >
+                    <p className="mb-2 text-xs font-bold uppercase tracking-wide text-gray-500">
+                      For: <span className="normal-case text-gray-900">{turn.option}</span>
+                    </p>
+                    <div className="text-sm text-gray-700">
+                      <CitedReasoning text={turn.argument} sources={markCited(sources, turn.argument)} />
+                    </div>
+                  </div>
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookOpen, CalendarClock, Loader2, Star } from 'lucide-react';
+
+import { REVIEW_OUTCOMES, type ReviewOutcome } from '@/lib/decision/calibration';
+import type { JournalEntry } from '@/lib/decision/journal';
+import { cn } from '@/lib/utils';
+
+interface DecisionJournalProps {
+  decisionId: string;
+  options: string[];
+  // Absent when the engine abstained
+  recommendation: string | null;
+}
+
+// Stands for a choice that wasn't one of the analysed options
+const OTHER = '__other__';
+
+const OUTCOME_TONES: Record<ReviewOutcome, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  good: 'bg-green-100 text-green-800',
+  mixed: 'bg-yellow-100 text-yellow-800',
+  bad: 'bg-red-100 text-red-800',
+};
+
+const labelOf = (outcome: ReviewOutcome) => REVIEW_OUTCOMES.find((entry) => entry.id === outcome)?.label || outcome;
+
+// What the user actually did and how it turned out, one entry per review.
+// The latest entry counts towards the calibration dashboard.
+export function DecisionJournal({ decisionId, options, recommendation }: DecisionJournalProps) {
+  const [entries, setEntries] = useState<JournalEntry[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [choice, setChoice] = useState('');
+  const [otherChoice, setOtherChoice] = useState('');
+  const [outcome, setOutcome] = useState<ReviewOutcome>('pending');
+  const [satisfaction, setSatisfaction] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [nextReview, setNextReview] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/decisions/${decisionId}/journal`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Could not load the journal');
+        setEntries(data.entries);
+        // A later review usually concerns the same choice
+        const last: JournalEntry | undefined = data.entries[data.entries.length - 1];
+        if (last) {
+          setChoice(options.includes(last.chosen_option) ? last.chosen_option : OTHER);
+          if (!options.includes(last.chosen_option)) setOtherChoice(last.chosen_option);
+        }
+      })
+      .catch((error: unknown) => {
+        setLoadError(error instanceof Error ? error.message : 'Could not load the journal');
+        setEntries([]);
+      });
+  }, [decisionId, options]);
+
+  const chosen = choice === OTHER ? otherChoice.trim() : choice;
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/decisions/${decisionId}/journal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chosen_option: chosen, outcome, satisfaction, notes, next_review_on: nextReview || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not save the review');
+      setEntries((prev) => [...(prev || []), data.entry]);
+      setNotes('');
+      setNextReview('');
+    } catch (error: any) {
+      console.error(error);
+      alert('Error: ' + error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-5">
+      <div>
+        <h3 className="flex items-center gap-2 font-semibold text-gray-800">
+          <BookOpen className="h-5 w-5 text-blue-500" />
+          Decision journal
+        </h3>
+        <p className="text-sm text-gray-600">Come back as things unfold to record what you did and how it went.</p>
+      </div>
+
+      {loadError && <p className="text-sm text-red-700">{loadError}</p>}
+
+      {entries === null ? (
+        <p className="flex items-center gap-2 text-sm text-gray-500"><Loader2 className="animate-spin h-4 w-4" /> Loading…</p>
+      ) : entries.length > 0 && (
+        <ol className="space-y-3">
+          {entries.map((entry) => (
+            <li key={entry.id} className="border-l-2 border-gray-200 pl-3 text-sm">
+              <p className="text-xs text-gray-500">
+                {new Date(entry.created_at).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                {entry.next_review_on && <> · next review {entry.next_review_on}</>}
+              </p>
+              <p className="text-gray-900">
+                Chose <span className="font-semibold">{entry.chosen_option}</span>
+                {recommendation && entry.chosen_option !== recommendation && <span className="text-gray-500"> (not the recommendation)</span>}
+              </p>
+              <p className="mt-1 flex items-center gap-2">
+                <span className={cn('rounded px-2 py-0.5 text-xs font-bold', OUTCOME_TONES[entry.outcome])}>{labelOf(entry.outcome)}</span>
+                {entry.satisfaction !== null && <span className="text-xs text-gray-500">Satisfaction {entry.satisfaction}/5</span>}
+              </p>
+              {entry.notes && <p className="mt-1 text-gray-700 whitespace-pre-wrap">{entry.notes}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={save} className="space-y-4 border-t pt-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">What did you choose?</label>
+          <select
+            required
+            className="w-full p-2 border rounded-md bg-white focus:ring-blue-500 focus:border-blue-500"
+            value={choice}
+            onChange={(e) => setChoice(e.target.value)}
+          >
+            <option value="" disabled>Pick one</option>
+            {options.map((option, idx) => (
+              <option key={idx} value={option}>{option === recommendation ? `${option} (recommended)` : option}</option>
+            ))}
+            <option value={OTHER}>Something else…</option>
+          </select>
+          {choice === OTHER && (
+            <input
+              required
+              className="mt-2 w-full p-2 border rounded-md focus:ring-blue-500 focus:border-blue-500"
+              placeholder="What you did instead"
+              value={otherChoice}
+              onChange={(e) => setOtherChoice(e.target.value)}
+            />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">How did it turn out?</label>
+            <select
+              className="w-full p-2 border rounded-md bg-white focus:ring-blue-500 focus:border-blue-500"
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as ReviewOutcome)}
+            >
+              {REVIEW_OUTCOMES.map((entry) => (
+                <option key={entry.id} value={entry.id}>{entry.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Satisfaction</label>
+            <div className="flex items-center gap-1 py-1">
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setSatisfaction(satisfaction === value ? null : value)}
+                  aria-label={`${value} of 5`}
+                  className="p-1 text-gray-300 hover:text-yellow-500"
+                >
+                  <Star className={cn('h-5 w-5', satisfaction !== null && value <= satisfaction && 'fill-yellow-400 text-yellow-500')} />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <textarea
+            rows={3}
+            className="w-full p-3 border rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            placeholder="What happened, and what you would do differently"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+              <CalendarClock className="h-4 w-4" /> Review again on
+            </label>
+            <input
+              type="date"
+              className="p-2 border rounded-md focus:ring-blue-500 focus:border-blue-500"
+              value={nextReview}
+              onChange={(e) => setNextReview(e.target.value)}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !chosen}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="animate-spin h-4 w-4" />}
+            Add to journal
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
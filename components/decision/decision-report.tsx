@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+import { ChallengePanel } from '@/components/decision/challenge-panel';
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import { DebateTranscript } from '@/components/decision/debate-transcript';
+import { EvidenceNotice } from '@/components/decision/evidence-notice';
+import { OptionEvidence } from '@/components/decision/option-evidence';
+import { OptionRanking } from '@/components/decision/option-ranking';
+import { PremortemReport } from '@/components/decision/premortem-report';
+import { ScoreMatrix } from '@/components/decision/score-matrix';
+import { VoteDistribution } from '@/components/decision/vote-distribution';
+import { WeightedBreakdown } from '@/components/decision/weighted-breakdown';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UNABLE_TO_ANALYZE, type DecisionResult } from '@/lib/decision/types';
+
+interface DecisionReportProps {
+  // Partial while the result is still streaming
+  result: Partial<DecisionResult>;
+  // Interactive extras of the live page; a reopened decision leaves them out
+  feedback?: ReactNode;
+  suggestions?: ReactNode;
+  whatIf?: ReactNode;
+}
+
+// The recommendation card and every analysis panel the result has data for.
+export function DecisionReport({ result, feedback, suggestions, whatIf }: DecisionReportProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const abstained = result.recommendation === UNABLE_TO_ANALYZE;
+
+  // Everything below the recommendation card; moved into a tab when there is a pre-mortem
+  const analysisPanels = (
+    <>
+      {suggestions}
+
+      {result.consistency && result.scores && (
+        <VoteDistribution consistency={result.consistency} options={result.scores.map(s => s.option)} />
+      )}
+
+      {result.scores && result.scores.length > 0 && result.criteria && (
+        <ScoreMatrix scores={result.scores} criteria={result.criteria} recommendation={result.recommendation} />
+      )}
+
+      {result.evidence && result.evidence.length > 0 && (
+        <OptionEvidence evidence={result.evidence} sources={result.sources || []} recommendation={result.recommendation} />
+      )}
+
+      {result.weighted && result.scores && result.criteria && (
+        <WeightedBreakdown analysis={result.weighted} criteria={result.criteria} options={result.scores.map(s => s.option)} />
+      )}
+
+      {whatIf}
+
+      {result.debate && (
+        <DebateTranscript debate={result.debate} sources={result.sources || []} recommendation={result.recommendation} />
+      )}
+
+      {result.challenge && (
+        <ChallengePanel challenge={result.challenge} sources={result.sources || []} recommendation={result.recommendation} />
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className="w-full flex justify-between items-center p-4 bg-gray-50 hover:bg-gray-100 transition-colors"
+        >
+          <span className="font-semibold text-gray-700">View Detailed Reasoning</span>
+          {showDetails ? <ChevronUp className="h-5 w-5 text-gray-500"/> : <ChevronDown className="h-5 w-5 text-gray-500"/>}
+        </button>
+
+        {showDetails && (
+          <div className="p-6 text-gray-700 prose prose-sm max-w-none border-t bg-white">
+            <CitedReasoning text={result.detailed_reasoning || ''} sources={result.sources || []} />
+          </div>
+        )}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className={`p-6 rounded-xl text-center border ${abstained ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+        <h2 className={`text-sm font-bold uppercase tracking-wide mb-2 ${abstained ? 'text-yellow-800' : 'text-green-800'}`}>
+          {abstained ? 'Result' : 'Recommendation'}
+        </h2>
+        <div className="text-2xl font-bold text-gray-900 mb-2">{result.recommendation}</div>
+        <p className="text-gray-700">{result.short_reason}</p>
+        {result.assessment && (
+          <EvidenceNotice assessment={result.assessment} confidence={result.confidence} abstention={result.abstention} />
+        )}
+        {result.template && (
+          <p className="mt-3 text-xs text-gray-500">
+            Treated as a {result.template.label.toLowerCase()} decision{result.template.auto ? ' (auto-detected)' : ''}
+          </p>
+        )}
+        {result.model && (
+          <p className="mt-1 text-xs text-gray-500">
+            Analyzed by {result.model.provider} · {result.model.model}{result.prompt && ` · prompt ${result.prompt.id}`}
+          </p>
+        )}
+        {feedback}
+      </div>
+
+      {result.ranking && result.ranking.length > 1 && (
+        <OptionRanking ranking={result.ranking} sources={result.sources || []} />
+      )}
+
+      {result.premortem ? (
+        <Tabs defaultValue="analysis">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="analysis">Analysis</TabsTrigger>
+            <TabsTrigger value="premortem">Pre-mortem</TabsTrigger>
+          </TabsList>
+          <TabsContent value="analysis" className="space-y-4">{analysisPanels}</TabsContent>
+          <TabsContent value="premortem">
+            <PremortemReport premortem={result.premortem} sources={result.sources || []} />
+          </TabsContent>
+        </Tabs>
+      ) : analysisPanels}
+    </div>
+  );
+}
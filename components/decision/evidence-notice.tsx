@@ -0,0 +1,49 @@
+'use client';
+
+import type { Abstention, EvidenceAssessment } from '@/lib/decision/sufficiency';
+import { cn } from '@/lib/utils';
+
+interface EvidenceNoticeProps {
+  assessment: EvidenceAssessment;
+  confidence?: number;
+  abstention?: Abstention;
+}
+
+const LEVEL_TONES: Record<EvidenceAssessment['level'], string> = {
+  strong: 'bg-green-100 text-green-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  weak: 'bg-red-100 text-red-800',
+};
+
+// Shown inside the recommendation card: why the engine abstained, or how far
+// the library supports the answer it gave.
+export function EvidenceNotice({ assessment, confidence, abstention }: EvidenceNoticeProps) {
+  if (abstention) {
+    return (
+      <div className="mt-4 text-left text-sm text-yellow-900">
+        <p className="font-semibold">What was missing:</p>
+        <ul className="mt-1 list-disc pl-5 space-y-1">
+          {abstention.details.map((detail, index) => <li key={index}>{detail}</li>)}
+        </ul>
+        <p className="mt-2 text-xs text-yellow-800">
+          Best match {Math.round(assessment.topSimilarity * 100)}% · top passages average {Math.round(assessment.meanSimilarity * 100)}%
+          {assessment.uncoveredOptions.length > 0 && ` · ${assessment.uncoveredOptions.length} option${assessment.uncoveredOptions.length === 1 ? '' : 's'} without evidence`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 text-sm">
+      <p className="flex items-center justify-center gap-2 text-gray-600">
+        {confidence !== undefined && <span>Confidence <span className="font-bold text-gray-900">{Math.round(confidence * 100)}%</span></span>}
+        <span className={cn('rounded px-2 py-0.5 text-xs font-bold', LEVEL_TONES[assessment.level])}>{assessment.level} evidence</span>
+      </p>
+      {assessment.level !== 'strong' && assessment.gaps.length > 0 && (
+        <ul className="mt-2 text-left text-xs text-gray-600 list-disc pl-5 space-y-0.5">
+          {assessment.gaps.map((gap, index) => <li key={index}>{gap}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
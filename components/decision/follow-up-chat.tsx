@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, Loader2, MessageCircle, RefreshCw, Send } from 'lucide-react';
+
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import type { Clarification } from '@/lib/decision/clarify';
+import type { FollowUpEvent, FollowUpMessage, Revision } from '@/lib/decision/followup';
+import type { Source } from '@/lib/decision/sources';
+import { readEventStream } from '@/lib/decision/sse';
+
+interface FollowUpChatProps {
+  problem: string;
+  clarifications: Clarification[];
+  options: string[];
+  recommendation: string;
+  shortReason: string;
+  sources: Source[];
+}
+
+interface ChatTurn extends FollowUpMessage {
+  revision?: Revision | null;
+  newSources?: number;
+}
+
+const SUGGESTIONS = ['What if the budget doubled?', 'Why not the other options?', 'What would make you change your mind?'];
+
+// Follow-up questions on a finished decision. The conversation state (the
+// current recommendation and every passage retrieved so far) lives here and
+// is sent with each question.
+export function FollowUpChat({ problem, clarifications, options, recommendation, shortReason, sources: initialSources }: FollowUpChatProps) {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [current, setCurrent] = useState({ recommendation, short_reason: shortReason });
+  const [sources, setSources] = useState(initialSources);
+  const [question, setQuestion] = useState('');
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [stage, setStage] = useState<string | null>(null);
+
+  const ask = async (text: string) => {
+    if (!text.trim() || streaming !== null) return;
+    const history = turns.map(({ role, content }) => ({ role, content }));
+    const pending: ChatTurn = { role: 'user', content: text };
+    setTurns((prev) => [...prev, pending]);
+    setQuestion('');
+    setStreaming('');
+    let answered = false;
+
+    try {
+      const response = await fetch('/api/followup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({
+          // Passages go back as references; the server reloads their text
+          state: {
+            problem,
+            clarifications,
+            options,
+            ...current,
+            sources: sources.map(({ key, id, similarity, channel, options: retrievedFor }) => ({ key, id, similarity, channel, options: retrievedFor })),
+          },
+          history,
+          question: text,
+          stream: true,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Follow-up failed');
+      }
+
+      let streamError: string | null = null;
+      await readEventStream<FollowUpEvent>(response, (event) => {
+        if (event.type === 'stage') {
+          setStage(event.message);
+        } else if (event.type === 'partial') {
+          setStreaming(event.answer);
+        } else if (event.type === 'result') {
+          const { result } = event;
+          setSources(result.sources);
+          if (result.revision) setCurrent({ recommendation: result.revision.recommendation, short_reason: result.revision.short_reason });
+          answered = true;
+          setTurns((prev) => [...prev, { role: 'assistant', content: result.answer, revision: result.revision, newSources: result.newSources.length }]);
+        } else if (event.type === 'error') {
+          streamError = event.error;
+        }
+      });
+
+      if (streamError) throw new Error(streamError);
+    } catch (error: any) {
+      console.error(error);
+      // An unanswered question leaves the conversation, so the next request
+      // never sends it as history; it goes back into the input to retry
+      if (!answered) {
+        setTurns((prev) => prev.filter((turn) => turn !== pending));
+        setQuestion(text);
+      }
+      alert('Error: ' + error.message);
+    } finally {
+      setStreaming(null);
+      setStage(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-4">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-800">
+        <MessageCircle className="h-5 w-5 text-blue-500" />
+        Ask a follow-up
+      </h3>
+
+      {turns.map((turn, index) => (
+        turn.role === 'user' ? (
+          <div key={index} className="ml-8 rounded-lg bg-blue-50 p-3 text-sm text-gray-800">{turn.content}</div>
+        ) : (
+          <div key={index} className="mr-8 space-y-2">
+            {turn.revision && (
+              <div className="rounded-lg border-2 border-amber-300 bg-amber-50 p-3 text-sm">
+                <p className="flex items-center gap-2 font-bold text-amber-900">
+                  <RefreshCw className="h-4 w-4" /> Recommendation revised
+                </p>
+                <p className="mt-1 flex flex-wrap items-center gap-2">
+                  <span className="text-gray-500 line-through">{turn.revision.previous}</span>
+                  <ArrowRight className="h-4 w-4 text-amber-700" />
+                  <span className="font-semibold text-gray-900 bg-green-100 rounded px-1">{turn.revision.recommendation}</span>
+                </p>
+                <p className="mt-1 text-gray-700">{turn.revision.short_reason}</p>
+                {turn.revision.what_changed && <p className="mt-1 text-xs text-amber-800">What changed: {turn.revision.what_changed}</p>}
+              </div>
+            )}
+            <div className="text-sm text-gray-700">
+              <CitedReasoning text={turn.content} sources={sources} />
+            </div>
+            {turn.newSources ? <p className="text-xs text-gray-400">{turn.newSources} new passage{turn.newSources === 1 ? '' : 's'} retrieved</p> : null}
+          </div>
+        )
+      ))}
+
+      {streaming !== null && (
+        <div className="mr-8 text-sm text-gray-700">
+          {streaming ? (
+            <p className="whitespace-pre-wrap">{streaming}</p>
+          ) : (
+            <p className="flex items-center gap-2 text-gray-500"><Loader2 className="animate-spin h-4 w-4" /> {stage || 'Thinking'}</p>
+          )}
+        </div>
+      )}
+
+      {turns.length === 0 && (
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => ask(suggestion)}
+              className="text-xs border rounded-full px-3 py-1 text-gray-600 hover:bg-gray-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(question);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          className="flex-1 p-2 border rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+          placeholder="e.g. What if I had six more months?"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          disabled={streaming !== null}
+        />
+        <button
+          type="submit"
+          disabled={streaming !== null || !question.trim()}
+          className="inline-flex items-center px-3 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          aria-label="Send"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+
+import type { EvidencePoint, OptionEvidence as OptionEvidenceEntry } from '@/lib/decision/schema';
+import type { Source } from '@/lib/decision/sources';
+import { cn } from '@/lib/utils';
+
+interface OptionEvidenceProps {
+  evidence: OptionEvidenceEntry[];
+  sources: Source[];
+  recommendation?: string;
+}
+
+function EvidenceList({ points, sources, tone }: { points: EvidencePoint[]; sources: Map<string, Source>; tone: 'for' | 'against' }) {
+  const Icon = tone === 'for' ? ThumbsUp : ThumbsDown;
+
+  if (points.length === 0) {
+    return <p className="text-xs italic text-gray-400">Nothing in the library {tone === 'for' ? 'supports' : 'argues against'} this option.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {points.map((point, index) => {
+        const source = sources.get(point.source);
+        return (
+          <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+            <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', tone === 'for' ? 'text-green-600' : 'text-red-500')} />
+            <span>
+              {point.point}{' '}
+              <span className="text-xs font-bold text-blue-600" title={source ? `${source.book}: ${source.excerpt}` : undefined}>
+                [{point.source.slice(1)}]
+              </span>
+              {source && <span className="text-xs text-gray-500"> {source.book}</span>}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Library evidence for and against each option, as found by its own retrieval queries.
+export function OptionEvidence({ evidence, sources, recommendation }: OptionEvidenceProps) {
+  const byKey = new Map(sources.map((source) => [source.key, source]));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-4">
+      <h3 className="font-semibold text-gray-700">Evidence per Option</h3>
+
+      {evidence.map((entry, index) => (
+        <div key={entry.option} className={cn('rounded-lg border p-3', entry.option === recommendation ? 'border-green-200 bg-green-50/60' : 'border-gray-100')}>
+          <p className="mb-2 font-medium text-gray-900">
+            <span className="font-bold text-gray-500 mr-1">{index + 1}.</span>
+            {entry.option}
+          </p>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wide text-green-700 mb-1">For</h4>
+              <EvidenceList points={entry.supporting} sources={byKey} tone="for" />
+            </div>
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wide text-red-700 mb-1">Against</h4>
+              <EvidenceList points={entry.opposing} sources={byKey} tone="against" />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { ListOrdered, Trophy } from 'lucide-react';
+
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import type { RankedOption } from '@/lib/decision/schema';
+import { markCited, type Source } from '@/lib/decision/sources';
+
+interface OptionRankingProps {
+  ranking: RankedOption[];
+  sources: Source[];
+}
+
+// Every option in order; each rejected one expands to why it lost and when it would have won.
+export function OptionRanking({ ranking, sources }: OptionRankingProps) {
+  const [winner, ...rejected] = ranking;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-700">
+        <ListOrdered className="h-5 w-5 text-blue-500" />
+        Ranking
+      </h3>
+
+      <div className="mt-3 flex items-center gap-3 rounded-lg bg-green-50 px-3 py-2 text-sm">
+        <span className="font-bold text-green-800">1</span>
+        <span className="flex-1 font-semibold text-gray-900">{winner.option}</span>
+        <Trophy className="h-4 w-4 text-green-700" />
+      </div>
+
+      <Accordion type="multiple">
+        {rejected.map((entry, index) => (
+          <AccordionItem key={entry.option} value={entry.option}>
+            <AccordionTrigger className="text-sm hover:no-underline">
+              <span className="flex items-center gap-3 px-3 text-left">
+                <span className="font-bold text-gray-500">{index + 2}</span>
+                <span className="text-gray-800">{entry.option}</span>
+              </span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3 px-3">
+              <div>
+                <p className="text-xs font-bold uppercase tracking-wide text-red-700 mb-1">Why not</p>
+                <div className="text-sm text-gray-700">
+                  <CitedReasoning text={entry.why_not} sources={markCited(sources, entry.why_not)} />
+                </div>
+              </div>
+              {entry.would_win_if && (
+                <div>
+                  <p className="text-xs font-bold uppercase tracking-wide text-blue-700 mb-1">Would have won if</p>
+                  <p className="text-sm text-gray-700">{entry.would_win_if}</p>
+                </div>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+}
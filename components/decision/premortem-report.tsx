@@ -0,0 +1,82 @@
+'use client';
+
+import { AlertTriangle, Eye, ShieldCheck } from 'lucide-react';
+
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import type { GroundedPoint, Premortem } from '@/lib/decision/premortem';
+import { markCited, type Source } from '@/lib/decision/sources';
+import { cn } from '@/lib/utils';
+
+interface PremortemReportProps {
+  premortem: Premortem;
+  sources: Source[];
+}
+
+const LIKELIHOOD_TONES: Record<Premortem['failures'][number]['likelihood'], string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+function PointList({ points, sources, icon: Icon, tone }: { points: GroundedPoint[]; sources: Map<string, Source>; icon: typeof Eye; tone: string }) {
+  return (
+    <ul className="space-y-1">
+      {points.map((point, index) => {
+        const source = sources.get(point.source);
+        return (
+          <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+            <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', tone)} />
+            <span>
+              {point.text}{' '}
+              <span className="text-xs font-bold text-blue-600" title={source ? `${source.book}: ${source.excerpt}` : undefined}>
+                [{point.source.slice(1)}]
+              </span>
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// How the chosen option could fail, what would warn us early, and how to prevent it.
+export function PremortemReport({ premortem, sources }: PremortemReportProps) {
+  const byKey = new Map(sources.map((source) => [source.key, source]));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        It is {premortem.horizon} from now and <span className="font-semibold text-gray-900">{premortem.option}</span> has failed. The most likely reasons:
+      </p>
+
+      {premortem.failures.map((failure, index) => (
+        <div key={index} className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="flex items-center gap-2 font-semibold text-gray-800">
+              <AlertTriangle className="h-5 w-5 text-red-500" />
+              {failure.title}
+            </h3>
+            <span className={cn('rounded px-2 py-0.5 text-xs font-bold', LIKELIHOOD_TONES[failure.likelihood])}>
+              {failure.likelihood} likelihood
+            </span>
+          </div>
+
+          <div className="text-sm text-gray-700">
+            <CitedReasoning text={failure.narrative} sources={markCited(sources, failure.narrative)} />
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2 pt-3 border-t">
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wide text-orange-700 mb-1">Early warning signals</h4>
+              <PointList points={failure.warning_signals} sources={byKey} icon={Eye} tone="text-orange-500" />
+            </div>
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wide text-green-700 mb-1">Mitigations</h4>
+              <PointList points={failure.mitigations} sources={byKey} icon={ShieldCheck} tone="text-green-600" />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+
+interface RunFeedbackProps {
+  runId: string;
+}
+
+// Thumbs up/down on a stored run; the ratings feed the prompt experiment results.
+export function RunFeedback({ runId }: RunFeedbackProps) {
+  const [rating, setRating] = useState<boolean | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const send = async (helpful: boolean) => {
+    setSending(true);
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runId, helpful }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Could not save feedback');
+      }
+      setRating(helpful);
+    } catch (error: any) {
+      console.error(error);
+      alert('Error: ' + error.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (rating !== null) {
+    return <p className="mt-3 text-xs text-gray-500">Thanks for the feedback.</p>;
+  }
+
+  return (
+    <div className="mt-3 flex items-center justify-center gap-2 text-xs text-gray-500">
+      <span>Was this helpful?</span>
+      {[true, false].map((helpful) => {
+        const Icon = helpful ? ThumbsUp : ThumbsDown;
+        return (
+          <button
+            key={String(helpful)}
+            type="button"
+            disabled={sending}
+            onClick={() => send(helpful)}
+            aria-label={helpful ? 'Helpful' : 'Not helpful'}
+            className={cn('rounded p-1 hover:bg-white disabled:opacity-50', helpful ? 'hover:text-green-700' : 'hover:text-red-700')}
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from 'recharts';
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Criterion } from '@/lib/decision/criteria';
+import type { OptionScores } from '@/lib/decision/schema';
+import { cn } from '@/lib/utils';
+
+const optionKey = (index: number) => `option_${index}`;
+const optionColor = (index: number) => `hsl(var(--chart-${(index % 5) + 1}))`;
+
+function scoreTone(score: number) {
+  if (score >= 7) return 'bg-green-100 text-green-800';
+  if (score >= 4) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
+
+interface ScoreMatrixProps {
+  scores: OptionScores[];
+  criteria: Criterion[];
+  recommendation?: string;
+}
+
+export function ScoreMatrix({ scores, criteria, recommendation }: ScoreMatrixProps) {
+  const chartConfig = scores.reduce<ChartConfig>((config, entry, index) => {
+    config[optionKey(index)] = { label: `Option ${index + 1}`, color: optionColor(index) };
+    return config;
+  }, {});
+
+  // One row per criterion, one series per option
+  const chartData = criteria.map((criterion, criterionIndex) => {
+    const row: Record<string, string | number> = { criterion: criterion.label };
+    scores.forEach((entry, index) => {
+      row[optionKey(index)] = entry.scores[criterionIndex]?.score ?? 0;
+    });
+    return row;
+  });
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-4">
+      <h3 className="font-semibold text-gray-700">Trade-offs by Criterion</h3>
+
+      <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[320px]">
+        <RadarChart data={chartData}>
+          <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="line" />} />
+          <PolarGrid />
+          <PolarAngleAxis dataKey="criterion" />
+          <PolarRadiusAxis domain={[0, 10]} tickCount={6} axisLine={false} tick={false} />
+          {scores.map((_, index) => (
+            <Radar
+              key={optionKey(index)}
+              dataKey={optionKey(index)}
+              fill={`var(--color-${optionKey(index)})`}
+              stroke={`var(--color-${optionKey(index)})`}
+              fillOpacity={0.15}
+            />
+          ))}
+          <ChartLegend content={<ChartLegendContent />} />
+        </RadarChart>
+      </ChartContainer>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Option</TableHead>
+            {criteria.map((criterion) => (
+              <TableHead key={criterion.id}>{criterion.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {scores.map((entry, index) => (
+            <TableRow key={entry.option} className={cn(entry.option === recommendation && 'bg-green-50/60')}>
+              <TableCell className="align-top font-medium text-gray-900 min-w-[10rem]">
+                <span className="font-bold text-gray-500 mr-1">{index + 1}.</span>
+                {entry.option}
+              </TableCell>
+              {entry.scores.map((score, criterionIndex) => (
+                <TableCell key={criteria[criterionIndex]?.id || criterionIndex} className="align-top min-w-[9rem]">
+                  <span className={cn('inline-block rounded px-2 py-0.5 text-xs font-bold', scoreTone(score.score))}>
+                    {score.score}/10
+                  </span>
+                  <p className="mt-1 text-xs text-gray-600">{score.justification}</p>
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
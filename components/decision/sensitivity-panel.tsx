@@ -0,0 +1,184 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2, RotateCcw, SlidersHorizontal } from 'lucide-react';
+
+import { Slider } from '@/components/ui/slider';
+import type { Clarification } from '@/lib/decision/clarify';
+import type { Criterion } from '@/lib/decision/criteria';
+import type { OptionScores } from '@/lib/decision/schema';
+import { findTippingPoints, rescore, type Assumption, type TippingPoint } from '@/lib/decision/sensitivity';
+import { cn } from '@/lib/utils';
+
+interface SensitivityPanelProps {
+  problem: string;
+  clarifications: Clarification[];
+  options: string[];
+  // Weighted criteria (MCDA mode) start at their weights, the others at equal weight
+  criteria: (Criterion & { weight?: number })[];
+  scores: OptionScores[];
+  recommendation: string;
+}
+
+const MAX_WEIGHT = 100;
+const EQUAL_WEIGHT = 50;
+
+const format = (value: number) => (Math.abs(value) >= 100 ? Math.round(value).toString() : String(Math.round(value * 10) / 10));
+
+function TippingNote({ points, describe }: { points: { below: TippingPoint | null; above: TippingPoint | null }; describe: (value: number) => string }) {
+  if (!points.below && !points.above) return <p className="text-xs text-gray-400">No tipping point in range</p>;
+  return (
+    <p className="text-xs text-amber-700">
+      {[
+        points.below && `below ${describe(points.below.value)} → ${points.below.winner}`,
+        points.above && `above ${describe(points.above.value)} → ${points.above.winner}`,
+      ].filter(Boolean).join(' · ')}
+    </p>
+  );
+}
+
+// What-if sliders over criterion weights and the key assumptions, re-ranking
+// the options locally from the scores on every move.
+export function SensitivityPanel({ problem, clarifications, options, criteria, scores, recommendation }: SensitivityPanelProps) {
+  const initialWeights = useMemo(
+    () => Object.fromEntries(criteria.map((criterion) => [criterion.id, criterion.weight ?? EQUAL_WEIGHT])),
+    [criteria]
+  );
+  const [weights, setWeights] = useState<Record<string, number>>(initialWeights);
+  const [assumptions, setAssumptions] = useState<Assumption[] | null>(null);
+  const [values, setValues] = useState<Record<string, number>>({});
+  const [loadingAssumptions, setLoadingAssumptions] = useState(false);
+
+  const analysis = rescore(scores, criteria, weights, assumptions || [], values);
+  const leader = analysis?.ranking[0]?.option;
+  // The model weighs more than the scores, so at the starting weights the
+  // weighted-score leader can already differ from the recommendation
+  const startLeader = rescore(scores, criteria, initialWeights)?.ranking[0]?.option;
+
+  const winnerWith = (nextWeights: Record<string, number>, nextValues: Record<string, number>) =>
+    rescore(scores, criteria, nextWeights, assumptions || [], nextValues)?.ranking[0]?.option || null;
+
+  const findAssumptions = async () => {
+    setLoadingAssumptions(true);
+    try {
+      const response = await fetch('/api/sensitivity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ problem, clarifications, options, criteria, scores, recommendation }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not find assumptions');
+      setAssumptions(data.assumptions);
+      setValues(Object.fromEntries(data.assumptions.map((assumption: Assumption) => [assumption.id, assumption.baseline])));
+    } catch (error: any) {
+      console.error(error);
+      alert('Error: ' + error.message);
+    } finally {
+      setLoadingAssumptions(false);
+    }
+  };
+
+  const reset = () => {
+    setWeights(initialWeights);
+    if (assumptions) setValues(Object.fromEntries(assumptions.map((assumption) => [assumption.id, assumption.baseline])));
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-800">
+          <SlidersHorizontal className="h-5 w-5 text-blue-500" />
+          What if?
+        </h3>
+        <button type="button" onClick={reset} className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800">
+          <RotateCcw className="h-3 w-3" /> Reset
+        </button>
+      </div>
+
+      {analysis && (
+        <div className={cn('rounded-lg p-3 text-sm', leader === recommendation ? 'bg-green-50 text-green-900' : 'bg-amber-50 text-amber-900')}>
+          {startLeader && startLeader !== recommendation && (
+            <p className="mb-1 text-xs">
+              At the starting weights the weighted scores alone favour {startLeader}, not the recommendation. Tipping points show where {recommendation} would take or lose the lead.
+            </p>
+          )}
+          {leader === recommendation
+            ? <>The scores favour the recommendation, <span className="font-semibold">{leader}</span>.</>
+            : <>With these settings the scores favour <span className="font-semibold">{leader}</span> instead of {recommendation}.</>}
+          <ol className="mt-2 space-y-0.5 text-xs text-gray-700">
+            {analysis.ranking.map((entry) => (
+              <li key={entry.option} className="flex justify-between gap-4">
+                <span className="truncate">{entry.option}</span>
+                <span className="font-mono">{entry.total.toFixed(2)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500">Criterion weights</h4>
+        {criteria.map((criterion) => (
+          <div key={criterion.id} className="space-y-1">
+            <div className="flex justify-between text-sm text-gray-700">
+              <span>{criterion.label}</span>
+              <span className="font-mono">{weights[criterion.id]}</span>
+            </div>
+            <Slider
+              min={0}
+              max={MAX_WEIGHT}
+              step={1}
+              value={[weights[criterion.id]]}
+              onValueChange={([value]) => setWeights((prev) => ({ ...prev, [criterion.id]: value }))}
+            />
+            <TippingNote
+              points={findTippingPoints((value) => winnerWith({ ...weights, [criterion.id]: value }, values), recommendation, weights[criterion.id], 0, MAX_WEIGHT)}
+              describe={format}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500">Key assumptions</h4>
+        {assumptions === null ? (
+          <button
+            type="button"
+            onClick={findAssumptions}
+            disabled={loadingAssumptions}
+            className="inline-flex items-center gap-2 text-sm border px-3 py-1 rounded hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+          >
+            {loadingAssumptions && <Loader2 className="animate-spin h-4 w-4" />}
+            Find the assumptions this rests on
+          </button>
+        ) : assumptions.length === 0 ? (
+          <p className="text-sm text-gray-500">No assumptions with a measurable effect on the scores were found.</p>
+        ) : (
+          assumptions.map((assumption) => {
+            const value = values[assumption.id] ?? assumption.baseline;
+            return (
+              <div key={assumption.id} className="space-y-1">
+                <div className="flex justify-between gap-4 text-sm text-gray-700">
+                  <span>{assumption.label}</span>
+                  <span className="font-mono whitespace-nowrap">{format(value)} {assumption.unit}</span>
+                </div>
+                <Slider
+                  min={assumption.min}
+                  max={assumption.max}
+                  step={(assumption.max - assumption.min) / 100}
+                  value={[value]}
+                  onValueChange={([next]) => setValues((prev) => ({ ...prev, [assumption.id]: next }))}
+                />
+                <p className="text-xs text-gray-400">Assumed: {format(assumption.baseline)} {assumption.unit}</p>
+                <TippingNote
+                  points={findTippingPoints((next) => winnerWith(weights, { ...values, [assumption.id]: next }), recommendation, value, assumption.min, assumption.max)}
+                  describe={(point) => `${format(point)} ${assumption.unit}`}
+                />
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
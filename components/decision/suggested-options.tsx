@@ -0,0 +1,70 @@
+'use client';
+
+import { Check, Lightbulb, Plus } from 'lucide-react';
+
+import { CitedReasoning } from '@/components/decision/cited-reasoning';
+import type { SuggestedOption } from '@/lib/decision/expand';
+import { markCited, type Source } from '@/lib/decision/sources';
+
+interface SuggestedOptionsProps {
+  suggestions: SuggestedOption[];
+  sources: Source[];
+  // The options currently in the form, to mark suggestions already added
+  options: string[];
+  onAdd: (option: string) => void;
+  onRerun: () => void;
+}
+
+// Alternatives the user didn't list, each grounded in a library passage.
+// Added options only count once the analysis is run again.
+export function SuggestedOptions({ suggestions, sources, options, onAdd, onRerun }: SuggestedOptionsProps) {
+  const byKey = new Map(sources.map((source) => [source.key, source]));
+  const anyAdded = suggestions.some((suggestion) => options.some((option) => option.trim() === suggestion.option));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-3">
+      <div>
+        <h3 className="flex items-center gap-2 font-semibold text-gray-800">
+          <Lightbulb className="h-5 w-5 text-yellow-500" />
+          Options you may have missed
+        </h3>
+        <p className="text-sm text-gray-600">Add any of these to your options and analyze again to compare them.</p>
+      </div>
+
+      {suggestions.map((suggestion, index) => {
+        const added = options.some((option) => option.trim() === suggestion.option);
+        const source = byKey.get(suggestion.source);
+        return (
+          <div key={index} className="border-t pt-3 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <p className="font-semibold text-gray-900">
+                {suggestion.option}
+                {suggestion.hybrid && <span className="ml-2 rounded bg-purple-100 px-1.5 py-0.5 text-xs font-bold text-purple-700">hybrid</span>}
+              </p>
+              <button
+                type="button"
+                onClick={() => onAdd(suggestion.option)}
+                disabled={added}
+                className="inline-flex shrink-0 items-center gap-1 text-sm border px-3 py-1 rounded hover:bg-gray-50 text-gray-700 disabled:text-green-700 disabled:border-green-200 disabled:bg-green-50"
+              >
+                {added ? <><Check className="h-4 w-4" /> Added</> : <><Plus className="h-4 w-4" /> Add option</>}
+              </button>
+            </div>
+            <div className="text-sm text-gray-700">
+              <CitedReasoning text={suggestion.rationale} sources={markCited(sources, suggestion.rationale)} />
+            </div>
+            {source && <p className="text-xs text-gray-400">Suggested by {source.book}</p>}
+          </div>
+        );
+      })}
+
+      {anyAdded && (
+        <div className="flex justify-end border-t pt-3">
+          <button type="button" onClick={onRerun} className="text-sm font-bold px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700">
+            ✨ Analyze again with the new options
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
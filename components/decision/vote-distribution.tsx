@@ -0,0 +1,62 @@
+'use client';
+
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { Consistency } from '@/lib/decision/consistency';
+
+interface VoteDistributionProps {
+  consistency: Consistency;
+  options: string[];
+}
+
+const chartConfig = {
+  count: { label: 'Votes', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+// How the repeated samples voted, and how much they agree.
+export function VoteDistribution({ consistency, options }: VoteDistributionProps) {
+  const chartData = consistency.votes.map((entry) => ({
+    option: `Option ${options.indexOf(entry.option) + 1}`,
+    name: entry.option,
+    count: entry.count,
+  }));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="font-semibold text-gray-700">Consistency</h3>
+        <span className="text-sm text-gray-500">
+          Confidence <span className="font-bold text-gray-900">{Math.round(consistency.confidence * 100)}%</span>
+        </span>
+      </div>
+
+      {consistency.split ? (
+        <p className="flex items-center gap-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          Split decision: no option won a clear majority of the {consistency.samples} samples.
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-green-800 bg-green-50 border border-green-200 rounded-md p-3">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          {Math.round(consistency.confidence * consistency.samples)} of {consistency.samples} samples picked the recommendation.
+        </p>
+      )}
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-[140px] w-full">
+        <BarChart data={chartData} layout="vertical" margin={{ left: 8 }}>
+          <XAxis type="number" allowDecimals={false} domain={[0, consistency.samples]} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="option" tickLine={false} axisLine={false} width={72} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.name} />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+
+      <p className="text-xs text-gray-500">
+        Sampled with {consistency.models.map((info) => `${info.provider} · ${info.model}`).join(', ')}
+        {consistency.failed > 0 && ` · ${consistency.failed} sample${consistency.failed === 1 ? '' : 's'} failed`}
+      </p>
+    </div>
+  );
+}
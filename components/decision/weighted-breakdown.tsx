@@ -0,0 +1,87 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import type { Criterion } from '@/lib/decision/criteria';
+import type { WeightedAnalysis } from '@/lib/decision/mcda';
+
+interface WeightedBreakdownProps {
+  analysis: WeightedAnalysis;
+  criteria: Criterion[];
+  options: string[];
+}
+
+export function WeightedBreakdown({ analysis, criteria, options }: WeightedBreakdownProps) {
+  const chartConfig = criteria.reduce<ChartConfig>((config, criterion, index) => {
+    config[criterion.id] = { label: criterion.label, color: `hsl(var(--chart-${(index % 5) + 1}))` };
+    return config;
+  }, {});
+
+  // One stacked bar per option, one segment per criterion contribution
+  const chartData = analysis.ranking.map((entry) => {
+    const row: Record<string, string | number> = { option: `Option ${options.indexOf(entry.option) + 1}` };
+    entry.contributions.forEach((c) => {
+      row[c.criterion] = c.contribution;
+    });
+    return row;
+  });
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-4">
+      <h3 className="font-semibold text-gray-700">Weighted Ranking</h3>
+
+      {analysis.agreesWithRecommendation ? (
+        <p className="flex items-center gap-2 text-sm text-green-800 bg-green-50 border border-green-200 rounded-md p-3">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          The weighted scores agree with the recommendation.
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          The weighted scores favour Option {options.indexOf(analysis.winner) + 1}, not the qualitative recommendation.
+        </p>
+      )}
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+        <BarChart data={chartData} layout="vertical" margin={{ left: 8 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" domain={[0, 10]} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="option" tickLine={false} axisLine={false} width={72} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {criteria.map((criterion) => (
+            <Bar key={criterion.id} dataKey={criterion.id} stackId="total" fill={`var(--color-${criterion.id})`} />
+          ))}
+        </BarChart>
+      </ChartContainer>
+
+      <ol className="space-y-2 text-sm">
+        {analysis.ranking.map((entry, rank) => (
+          <li key={entry.option} className="flex gap-3">
+            <span className="font-bold text-gray-500">#{rank + 1}</span>
+            <div className="flex-1">
+              <div className="flex justify-between gap-2">
+                <span className="text-gray-900">{entry.option}</span>
+                <span className="font-bold text-gray-900">{entry.total.toFixed(2)}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {entry.contributions
+                  .map((c) => `${criteria.find((criterion) => criterion.id === c.criterion)?.label || c.criterion}: ${c.score} × ${Math.round(c.weight * 100)}% = ${c.contribution.toFixed(2)}`)
+                  .join(' · ')}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { ChatModel } from '@/lib/llm/types';
+import { sanitizeClarifications, withClarifications } from './clarify';
+import type { Criterion } from './criteria';
+import { DecisionError } from './errors';
+import { matchOption, type OptionScores } from './schema';
+import type { Assumption } from './sensitivity';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- KEY ASSUMPTIONS ---
+// One model call names the assumptions the scores rest on (e.g. "the sales
+// dip lasts 1 month"), a plausible range for each, and how the scores would
+// move at either end. The sensitivity panel then re-ranks locally.
+
+const MAX_ASSUMPTIONS = 3;
+const MAX_SHIFT = 9;
+
+const impactSchema = z.object({
+  option: z.string().describe('The option whose score moves, copied exactly.'),
+  criterion: z.string().describe('The id of the criterion whose score moves.'),
+  at_min: z.number().describe('Change to that score (-9 to 9) when the assumption is at its minimum.'),
+  at_max: z.number().describe('Change to that score (-9 to 9) when the assumption is at its maximum.'),
+});
+
+const assumptionsSchema = z.object({
+  assumptions: z
+    .array(z.object({
+      label: z.string().min(1).describe('What is being assumed, as a measurable quantity, e.g. "How long the sales dip lasts".'),
+      unit: z.string().describe('The unit of the quantity, e.g. "months", "%", "$k".'),
+      baseline: z.number().describe('The value the problem states or the scores implicitly assume.'),
+      min: z.number().describe('The lowest plausible value.'),
+      max: z.number().describe('The highest plausible value.'),
+      impacts: z.array(impactSchema).describe('Only the scores this assumption actually moves.'),
+    }))
+    .describe(`The ${MAX_ASSUMPTIONS} stated or implied assumptions the recommendation depends on most.`),
+});
+
+export interface AssumptionRequest {
+  problem: string;
+  options: string[];
+  criteria: Criterion[];
+  scores: OptionScores[];
+  recommendation: string;
+}
+
+// Accepts the decide route's result fields, dropping anything malformed
+export function sanitizeAssumptionRequest(body: any): AssumptionRequest {
+  const clean = (text: unknown) => (typeof text === 'string' ? text.replace(/[\x00-\x1F\x7F]/g, ' ').trim() : '');
+  const options: string[] = Array.isArray(body.options) ? body.options.map(clean).filter(Boolean) : [];
+  const criteria: Criterion[] = (Array.isArray(body.criteria) ? body.criteria : [])
+    .filter((criterion: any) => criterion && typeof criterion.id === 'string')
+    .map((criterion: any) => ({ id: criterion.id, label: clean(criterion.label) || criterion.id, description: clean(criterion.description) }));
+  const scores: OptionScores[] = (Array.isArray(body.scores) ? body.scores : [])
+    .filter((entry: any) => entry && typeof entry.option === 'string' && Array.isArray(entry.scores));
+
+  if (!clean(body.problem) || options.length < 2 || criteria.length === 0 || scores.length === 0) {
+    throw new DecisionError('Sensitivity analysis needs a finished decision: problem, options, criteria and scores.', 400);
+  }
+
+  return {
+    problem: withClarifications(clean(body.problem), sanitizeClarifications(body.clarifications)),
+    options,
+    criteria,
+    scores,
+    recommendation: clean(body.recommendation),
+  };
+}
+
+const clampShift = (value: number) => Math.min(Math.max(value, -MAX_SHIFT), MAX_SHIFT);
+
+export async function extractAssumptions({ problem, options, criteria, scores, recommendation }: AssumptionRequest, model: ChatModel): Promise<Assumption[]> {
+  const scoreTable = scores
+    .map((entry) => `- ${entry.option}: ${entry.scores.map((score) => `${score.criterion} ${score.score}`).join(', ')}`)
+    .join('\n');
+
+  const { assumptions } = await generateStructured({
+    model,
+    prompt: `You are stress-testing a decision. The options were scored 1-10 on each criterion (10 = best for the user). Name the key assumptions these scores rest on, as quantities with a plausible range, and say how each score would change at either end of the range.
+
+User Problem: ${problem}
+User Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+Recommendation: ${recommendation}
+
+Criteria:
+${criteria.map((criterion) => `- "${criterion.id}": ${criterion.description}`).join('\n')}
+
+Scores:
+${scoreTable}
+
+${formatInstructions(assumptionsSchema)}`,
+    schema: assumptionsSchema,
+  });
+
+  const criterionIds = criteria.map((criterion) => criterion.id);
+  return assumptions
+    .slice(0, MAX_ASSUMPTIONS)
+    .map((assumption, index) => {
+      const min = Math.min(assumption.min, assumption.baseline, assumption.max);
+      const max = Math.max(assumption.min, assumption.baseline, assumption.max);
+      return {
+        id: `a${index + 1}`,
+        label: assumption.label,
+        unit: assumption.unit,
+        baseline: assumption.baseline,
+        min,
+        max,
+        // Impacts on unknown options or criteria are dropped rather than repaired
+        impacts: assumption.impacts
+          .map((impact) => ({ ...impact, option: matchOption(impact.option, options) || '' }))
+          .filter((impact) => impact.option && criterionIds.includes(impact.criterion))
+          .map((impact) => ({ ...impact, at_min: clampShift(impact.at_min), at_max: clampShift(impact.at_max) })),
+      };
+    })
+    .filter((assumption) => assumption.max > assumption.min && assumption.impacts.length > 0);
+}
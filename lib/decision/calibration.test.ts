@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calibrate, type DecisionOutcome } from './calibration';
+
+let nextId = 0;
+
+const outcome = (overrides: Partial<DecisionOutcome> = {}): DecisionOutcome => ({
+  decision_id: `decision-${++nextId}`,
+  problem: 'Which job?',
+  recommendation: 'Take the new job',
+  confidence: 0.7,
+  abstained: false,
+  decided_at: '2026-03-10T09:00:00Z',
+  chosen_option: 'Take the new job',
+  followed: true,
+  outcome: 'good',
+  satisfaction: null,
+  next_review_on: null,
+  reviewed_at: '2026-06-10T09:00:00Z',
+  ...overrides,
+});
+
+describe('calibrate', () => {
+  it('puts 100% confidence in the last bin', () => {
+    const stats = calibrate([outcome({ confidence: 1 }), outcome({ confidence: 0.85, outcome: 'mixed' }), outcome({ confidence: 0.2, outcome: 'bad' })]);
+
+    assert.deepEqual(stats.bins, [
+      { label: '20-40%', decisions: 1, confidence: 0.2, success: 0 },
+      { label: '80-100%', decisions: 2, confidence: 0.925, success: 0.75 },
+    ]);
+  });
+
+  it('leaves abstentions out of the follow rate', () => {
+    const stats = calibrate([
+      outcome(),
+      outcome({ followed: false, outcome: 'bad' }),
+      outcome({ abstained: true, followed: false }),
+      outcome({ abstained: true, followed: false }),
+    ]);
+
+    assert.equal(stats.resolved, 4);
+    assert.equal(stats.followRate, 0.5);
+    assert.equal(stats.successWhenFollowed, 1);
+    assert.equal(stats.successWhenNotFollowed, 0);
+  });
+
+  it('only counts pending reviews', () => {
+    const stats = calibrate([outcome({ outcome: 'pending', satisfaction: 1 }), outcome({ satisfaction: 4 })]);
+
+    assert.equal(stats.pending, 1);
+    assert.equal(stats.resolved, 1);
+    assert.equal(stats.meanSatisfaction, 4);
+    assert.equal(stats.bins.reduce((sum, bin) => sum + bin.decisions, 0), 1);
+  });
+
+  it('scores the gap between stated confidence and outcome', () => {
+    const stats = calibrate([outcome({ confidence: 0.8 }), outcome({ confidence: 0.6, outcome: 'bad' }), outcome({ confidence: null })]);
+
+    // (0.2² + 0.6²) / 2; the decision without a confidence is left out
+    assert.equal(stats.brierScore, 0.2);
+  });
+
+  it('groups the recommendations by month', () => {
+    const stats = calibrate([
+      outcome({ decided_at: '2026-04-02T09:00:00Z', followed: false, outcome: 'bad' }),
+      outcome({ decided_at: '2026-03-28T09:00:00Z', confidence: 0.9, outcome: 'mixed' }),
+      outcome({ decided_at: '2026-04-20T09:00:00Z', confidence: 0.6 }),
+      outcome({ decided_at: '2026-05-01T09:00:00Z', abstained: true, followed: false }),
+    ]);
+
+    assert.deepEqual(stats.timeline, [
+      { month: '2026-03', decisions: 1, followed: 1, confidence: 0.9, success: 0.5 },
+      { month: '2026-04', decisions: 2, followed: 1, confidence: 0.6, success: 1 },
+    ]);
+  });
+
+  it('has no rates without resolved decisions', () => {
+    const stats = calibrate([outcome({ outcome: 'pending' })]);
+
+    assert.equal(stats.followRate, null);
+    assert.equal(stats.brierScore, null);
+    assert.deepEqual(stats.bins, []);
+    assert.deepEqual(stats.timeline, []);
+  });
+});
@@ -0,0 +1,122 @@
+// --- CALIBRATION ---
+// Compares what the engine said with what happened. Journal outcomes are
+// scored good = 1, mixed = 0.5, bad = 0; a recommendation stated at 70%
+// confidence is well calibrated when such decisions score 0.7 on average.
+// Client-safe: the API route and the dashboard share these types.
+
+export type ReviewOutcome = 'pending' | 'good' | 'mixed' | 'bad';
+
+export const REVIEW_OUTCOMES: { id: ReviewOutcome; label: string }[] = [
+  { id: 'pending', label: 'Too early to tell' },
+  { id: 'good', label: 'Worked out' },
+  { id: 'mixed', label: 'Mixed' },
+  { id: 'bad', label: 'Did not work out' },
+];
+
+// A row of the `decision_outcomes` view: the latest review of a decision
+export interface DecisionOutcome {
+  decision_id: string;
+  problem: string;
+  recommendation: string;
+  confidence: number | null;
+  abstained: boolean;
+  decided_at: string;
+  chosen_option: string;
+  // The user did what the engine recommended
+  followed: boolean;
+  outcome: ReviewOutcome;
+  satisfaction: number | null;
+  next_review_on: string | null;
+  reviewed_at: string;
+}
+
+export interface CalibrationBin {
+  label: string;
+  decisions: number;
+  // Mean stated confidence and mean outcome score of the followed recommendations in the bin
+  confidence: number;
+  success: number;
+}
+
+export interface CalibrationPeriod {
+  // YYYY-MM of the decision
+  month: string;
+  decisions: number;
+  followed: number;
+  confidence: number | null;
+  success: number | null;
+}
+
+export interface CalibrationStats {
+  // Decisions with a known outcome; pending ones are only counted
+  resolved: number;
+  pending: number;
+  followRate: number | null;
+  successWhenFollowed: number | null;
+  successWhenNotFollowed: number | null;
+  meanSatisfaction: number | null;
+  // Mean squared gap between stated confidence and outcome (0 is perfect, 0.25 is a coin flip at 50%)
+  brierScore: number | null;
+  bins: CalibrationBin[];
+  timeline: CalibrationPeriod[];
+}
+
+// Confidence bands of 20 points each
+const BINS = 5;
+
+const OUTCOME_SCORES: Record<Exclude<ReviewOutcome, 'pending'>, number> = { good: 1, mixed: 0.5, bad: 0 };
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const mean = (values: number[]) => (values.length ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null);
+
+export function outcomeScore(outcome: ReviewOutcome): number | null {
+  return outcome === 'pending' ? null : OUTCOME_SCORES[outcome];
+}
+
+export function calibrate(outcomes: DecisionOutcome[]): CalibrationStats {
+  const resolved = outcomes.filter((entry) => entry.outcome !== 'pending');
+  // Abstentions had no recommendation to follow
+  const recommended = resolved.filter((entry) => !entry.abstained);
+  const followed = recommended.filter((entry) => entry.followed);
+  const notFollowed = recommended.filter((entry) => !entry.followed);
+  const scored = followed.filter((entry) => entry.confidence !== null);
+
+  const bins: CalibrationBin[] = [];
+  for (let bin = 0; bin < BINS; bin++) {
+    // The last bin includes 100%
+    const inBin = scored.filter((entry) => Math.min(Math.floor(entry.confidence! * BINS), BINS - 1) === bin);
+    if (inBin.length === 0) continue;
+    bins.push({
+      label: `${(bin * 100) / BINS}-${((bin + 1) * 100) / BINS}%`,
+      decisions: inBin.length,
+      confidence: mean(inBin.map((entry) => entry.confidence!))!,
+      success: mean(inBin.map((entry) => outcomeScore(entry.outcome)!))!,
+    });
+  }
+
+  const months = Array.from(new Set(recommended.map((entry) => entry.decided_at.slice(0, 7)))).sort();
+  const timeline = months.map((month) => {
+    const inMonth = recommended.filter((entry) => entry.decided_at.slice(0, 7) === month);
+    const followedInMonth = inMonth.filter((entry) => entry.followed);
+    return {
+      month,
+      decisions: inMonth.length,
+      followed: followedInMonth.length,
+      confidence: mean(followedInMonth.filter((entry) => entry.confidence !== null).map((entry) => entry.confidence!)),
+      success: mean(followedInMonth.map((entry) => outcomeScore(entry.outcome)!)),
+    };
+  });
+
+  return {
+    resolved: resolved.length,
+    pending: outcomes.length - resolved.length,
+    followRate: recommended.length ? round(followed.length / recommended.length) : null,
+    successWhenFollowed: mean(followed.map((entry) => outcomeScore(entry.outcome)!)),
+    successWhenNotFollowed: mean(notFollowed.map((entry) => outcomeScore(entry.outcome)!)),
+    meanSatisfaction: mean(resolved.filter((entry) => entry.satisfaction !== null).map((entry) => entry.satisfaction!)),
+    brierScore: mean(scored.map((entry) => (entry.confidence! - outcomeScore(entry.outcome)!) ** 2)),
+    bins,
+    timeline,
+  };
+}
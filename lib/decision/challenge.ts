@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { providerSetting, resolveModel } from '@/lib/llm/providers';
+import type { ChatModel, ModelInfo } from '@/lib/llm/types';
+import { checkCitations, matchOption } from './schema';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- DEVIL'S ADVOCATE ---
+// A critic argues against the recommendation using the same library context,
+// then the original reasoner either rebuts the critique or revises its pick.
+
+// The critic defaults to the reasoning model; set these to use a different one
+const criticProvider = providerSetting('CRITIC_PROVIDER');
+const CRITIC_MODEL = process.env.CRITIC_MODEL;
+
+export interface Challenge {
+  critique: string;
+  rebuttal: string;
+  // The recommendation before the challenge
+  original_recommendation: string;
+  changed: boolean;
+  // When the pick changed: the reasoning for the original pick, which the
+  // rebuttal replaces as the result's detailed reasoning
+  original_reasoning?: string;
+  critic: ModelInfo;
+}
+
+interface ChallengeOutcome {
+  challenge: Challenge;
+  // The final pick and its short reason, revised or not
+  recommendation: string;
+  short_reason: string;
+}
+
+interface ChallengeInput {
+  model: ChatModel;
+  problem: string;
+  options: string[];
+  context: string;
+  sourceKeys: string[];
+  recommendation: string;
+  reasoning: string;
+}
+
+const critiqueOutputSchema = z.object({
+  critique: z
+    .string()
+    .min(1)
+    .describe('The strongest case against the recommendation (100-200 words), in plain paragraphs. Cite the library passages you rely on with their keys, e.g. [S1].'),
+});
+
+const rebuttalOutputSchema = z.object({
+  rebuttal: z
+    .string()
+    .min(1)
+    .describe('Your answer to the critique (100-200 words): where it is wrong, or why it convinced you. Cite passages with their keys, e.g. [S1].'),
+  recommendation: z
+    .string()
+    .min(1)
+    .describe('Your final pick after weighing the critique, copied verbatim from the list of user options. Keep the original unless the critique is convincing.'),
+  short_reason: z
+    .string()
+    .min(1)
+    .describe('Why the final pick wins, in 2 sentences max.'),
+});
+
+export function resolveCritic(selection: Partial<ModelInfo>): ChatModel {
+  // A little more temperature so the critic doesn't just agree
+  const provider = criticProvider();
+  return provider ? resolveModel({ provider, model: CRITIC_MODEL }, 0.4) : resolveModel(selection, 0.4);
+}
+
+const briefing = ({ problem, options, context }: ChallengeInput) => `User Problem: ${problem}
+User Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+CONTEXT FROM LIBRARY (STRICT):
+${context}`;
+
+export async function runChallenge(input: ChallengeInput, critic: ChatModel): Promise<ChallengeOutcome> {
+  const { options, sourceKeys, recommendation, reasoning } = input;
+
+  const { critique } = await generateStructured({
+    model: critic,
+    prompt: `You are a devil's advocate reviewing a decision recommendation. Argue as hard as the library context allows AGAINST the recommended option: its risks, the evidence it ignores, and why another option may be better. Do NOT use frameworks that are not in the context.
+
+${briefing(input)}
+
+Recommended option: ${recommendation}
+Reasoning given:
+${reasoning}
+
+${formatInstructions(critiqueOutputSchema)}`,
+    schema: critiqueOutputSchema.superRefine((value, ctx) => checkCitations(value.critique, sourceKeys, ctx, ['critique'])),
+  });
+
+  const answer = await generateStructured({
+    model: input.model,
+    prompt: `You are an expert decision consultant. You recommended "${recommendation}", and a devil's advocate has challenged it. Rebut the critique using the library context, or revise your pick if the critique is convincing.
+
+${briefing(input)}
+
+Your reasoning:
+${reasoning}
+
+The critique:
+${critique}
+
+${formatInstructions(rebuttalOutputSchema)}`,
+    schema: rebuttalOutputSchema
+      .superRefine((value, ctx) => {
+        if (!matchOption(value.recommendation, options)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['recommendation'],
+            message: `Must be one of the user options, copied exactly: ${options.map((o) => JSON.stringify(o)).join(', ')}`,
+          });
+        }
+        checkCitations(value.rebuttal, sourceKeys, ctx, ['rebuttal']);
+      })
+      .transform((value) => ({ ...value, recommendation: matchOption(value.recommendation, options)! })),
+  });
+
+  return {
+    challenge: {
+      critique,
+      rebuttal: answer.rebuttal,
+      original_recommendation: recommendation,
+      changed: answer.recommendation !== recommendation,
+      ...(answer.recommendation !== recommendation && { original_reasoning: reasoning }),
+      critic: critic.info,
+    },
+    recommendation: answer.recommendation,
+    short_reason: answer.short_reason,
+  };
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import type { ChatModel } from '@/lib/llm/types';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- CLARIFYING QUESTIONS ---
+// Before the analysis, the model checks whether the problem says enough to
+// decide well. If goals, constraints, the time horizon or the people affected
+// are missing, it asks a few targeted questions; the answers are folded into
+// the problem the rest of the pipeline sees.
+
+export const MAX_QUESTIONS = 3;
+const MAX_ANSWER_LENGTH = 1000;
+
+export type ClarifyingAspect = 'goals' | 'constraints' | 'time_horizon' | 'stakeholders' | 'other';
+
+export interface ClarifyingQuestion {
+  aspect: ClarifyingAspect;
+  question: string;
+}
+
+export interface Clarification {
+  question: string;
+  answer: string;
+}
+
+const clarifySchema = z.object({
+  underspecified: z
+    .boolean()
+    .describe('true only if a missing detail would change which option is best; false when the problem is clear enough to decide.'),
+  questions: z
+    .array(z.object({
+      aspect: z.enum(['goals', 'constraints', 'time_horizon', 'stakeholders', 'other']).describe('What the question is about.'),
+      question: z.string().min(1).describe('One short, specific question the user can answer in a sentence.'),
+    }))
+    .describe(`Up to ${MAX_QUESTIONS} questions, most important first. Empty when the problem is clear enough.`),
+});
+
+export async function clarifyingQuestions(problem: string, options: string[], model: ChatModel): Promise<ClarifyingQuestion[]> {
+  const { underspecified, questions } = await generateStructured({
+    model,
+    prompt: `You help users state decision problems clearly before they are analysed. Judge whether this problem is missing information needed to choose between the options: the user's goals, their constraints (budget, resources, non-negotiables), the time horizon, or the people affected. Only ask about what is genuinely missing and would change the answer; never ask about something the problem already says.
+
+Decision: ${problem}
+Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+${formatInstructions(clarifySchema)}`,
+    schema: clarifySchema,
+  });
+
+  return underspecified ? questions.slice(0, MAX_QUESTIONS) : [];
+}
+
+const clean = (text: string) => text.replace(/[\x00-\x1F\x7F]/g, ' ').trim();
+
+// Keeps answered questions only; anything malformed is dropped rather than rejected
+export function sanitizeClarifications(value: unknown): Clarification[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry) => entry && typeof entry.question === 'string' && typeof entry.answer === 'string')
+    .map((entry) => ({ question: clean(entry.question), answer: clean(entry.answer).slice(0, MAX_ANSWER_LENGTH) }))
+    .filter((entry) => entry.question && entry.answer)
+    .slice(0, MAX_QUESTIONS);
+}
+
+export function withClarifications(problem: string, clarifications: Clarification[] = []): string {
+  if (clarifications.length === 0) return problem;
+  return `${problem}\n\nClarifications from the user:\n${clarifications.map((entry) => `- Q: ${entry.question}\n  A: ${entry.answer}`).join('\n')}`;
+}
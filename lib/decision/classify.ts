@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import type { ChatModel } from '@/lib/llm/types';
+import { formatInstructions, generateStructured } from './structured';
+import { DECISION_TEMPLATES, TEMPLATE_IDS, getTemplate, type DecisionTemplate, type TemplateId } from './templates';
+
+// Picks the template for a problem when the user didn't choose one.
+
+const classificationSchema = z.object({
+  template: z.enum(TEMPLATE_IDS as [TemplateId, ...TemplateId[]]).describe('The id of the template that fits best.'),
+});
+
+export async function classifyProblem(problem: string, options: string[], model: ChatModel): Promise<DecisionTemplate> {
+  try {
+    const { template } = await generateStructured({
+      model,
+      prompt: `Classify this decision into one of the templates below. Use "general" when none clearly fits.
+
+Templates:
+${DECISION_TEMPLATES.map((entry) => `- "${entry.id}": ${entry.description}`).join('\n')}
+
+Decision: ${problem}
+Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+${formatInstructions(classificationSchema)}`,
+      schema: classificationSchema,
+    });
+    return getTemplate(template);
+  } catch (err: any) {
+    // A misclassification only costs specialisation, so fall back rather than fail
+    console.error('⚠️ Template classification failed, using "general":', err.message);
+    return getTemplate('general');
+  }
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { rotate, tallyVotes } from './consistency';
+
+const OPTIONS = ['A', 'B', 'C'];
+const MODELS = [{ provider: 'fake' as const, model: 'scripted' }];
+
+describe('tallyVotes', () => {
+  it('picks the majority and reports its share as the confidence', () => {
+    const tally = tallyVotes(['B', 'A', 'B', 'B', 'C'], OPTIONS, MODELS, 0);
+
+    assert.equal(tally.winner, 'B');
+    assert.equal(tally.confidence, 0.6);
+    assert.equal(tally.split, false);
+    assert.deepEqual(tally.votes.map((entry) => [entry.option, entry.count, entry.share]), [['B', 3, 0.6], ['A', 1, 0.2], ['C', 1, 0.2]]);
+  });
+
+  it('lets the first answer break a tie and flags the split', () => {
+    const tally = tallyVotes(['C', 'A', 'A', 'C'], OPTIONS, MODELS, 0);
+
+    assert.equal(tally.winner, 'C');
+    assert.equal(tally.confidence, 0.5);
+    assert.equal(tally.split, true);
+  });
+
+  it('lists options nobody picked with no votes', () => {
+    const tally = tallyVotes(['A', 'A'], OPTIONS, MODELS, 0);
+
+    assert.deepEqual(tally.votes.map((entry) => [entry.option, entry.count]), [['A', 2], ['B', 0], ['C', 0]]);
+    assert.equal(tally.confidence, 1);
+  });
+
+  it('counts only the samples that answered', () => {
+    const tally = tallyVotes(['A', 'B', 'A'], OPTIONS, MODELS, 2);
+
+    assert.equal(tally.samples, 3);
+    assert.equal(tally.failed, 2);
+    assert.equal(tally.confidence, 0.67);
+  });
+});
+
+describe('rotate', () => {
+  it('starts the list at the given index and wraps around', () => {
+    assert.deepEqual(rotate(OPTIONS, 1), ['B', 'C', 'A']);
+    assert.deepEqual(rotate(OPTIONS, 4), ['B', 'C', 'A']);
+    assert.deepEqual(rotate(OPTIONS, 0), OPTIONS);
+  });
+});
@@ -0,0 +1,97 @@
+import { isProviderId, resolveModel } from '@/lib/llm/providers';
+import type { ChatModel, ModelInfo } from '@/lib/llm/types';
+import { DecisionError } from './errors';
+
+// --- SELF-CONSISTENCY ---
+// The decision is sampled several times, varying the model, the persona the
+// prompt opens with and the order the options are listed in. The votes show
+// how stable the recommendation is.
+
+export const MAX_SAMPLES = 7;
+
+// Comma-separated provider:model pairs the samples rotate through, e.g.
+// "groq:llama-3.1-8b-instant,gemini:gemini-2.0-flash". Defaults to the request's model.
+const CONSISTENCY_MODELS = process.env.CONSISTENCY_MODELS;
+const SAMPLE_TEMPERATURE = 0.7;
+
+export const PERSONAS = [
+  'You are an expert decision consultant.',
+  'You are a seasoned strategy advisor reviewing this decision for a client.',
+  'You are a careful analyst who weighs the evidence before recommending anything.',
+];
+
+export interface Sampler {
+  model: ChatModel;
+  persona: string;
+  // The options are listed starting from this index, to counter position bias
+  rotation: number;
+}
+
+export interface OptionVotes {
+  option: string;
+  count: number;
+  share: number;
+}
+
+export interface Consistency {
+  // Samples that produced a valid answer, including the first one
+  samples: number;
+  failed: number;
+  votes: OptionVotes[];
+  winner: string;
+  // Share of the samples that agree with the winner
+  confidence: number;
+  // No option won a clear majority
+  split: boolean;
+  models: ModelInfo[];
+}
+
+function sampleModels(selection: Partial<ModelInfo>): Partial<ModelInfo>[] {
+  if (!CONSISTENCY_MODELS) return [selection];
+
+  return CONSISTENCY_MODELS.split(',').map((entry) => {
+    const [provider, ...model] = entry.trim().split(':');
+    if (!isProviderId(provider)) {
+      throw new DecisionError(`CONSISTENCY_MODELS names unknown LLM provider "${provider}".`, 500);
+    }
+    return { provider, model: model.join(':') || undefined };
+  });
+}
+
+// Samplers for the `count` extra samples taken after the first answer.
+export function resolveSamplers(count: number, selection: Partial<ModelInfo>): Sampler[] {
+  const models = sampleModels(selection).map((entry) => resolveModel(entry, SAMPLE_TEMPERATURE));
+  return Array.from({ length: count }, (_, i) => ({
+    model: models[i % models.length],
+    persona: PERSONAS[(i + 1) % PERSONAS.length],
+    rotation: i + 1,
+  }));
+}
+
+export function rotate<T>(items: T[], by: number): T[] {
+  const shift = by % items.length;
+  return [...items.slice(shift), ...items.slice(0, shift)];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// `picks[0]` is the first (primary) answer; it wins ties.
+export function tallyVotes(picks: string[], options: string[], models: ModelInfo[], failed: number): Consistency {
+  const votes = options
+    .map((option) => {
+      const count = picks.filter((pick) => pick === option).length;
+      return { option, count, share: round(count / picks.length) };
+    })
+    .sort((a, b) => b.count - a.count || Number(b.option === picks[0]) - Number(a.option === picks[0]));
+
+  const winner = votes[0];
+  return {
+    samples: picks.length,
+    failed,
+    votes,
+    winner: winner.option,
+    confidence: winner.share,
+    split: winner.count * 2 <= picks.length,
+    models,
+  };
+}
@@ -0,0 +1,46 @@
+// Criteria every option is scored against. Scores always run 1-10 with
+// 10 = best for the user, so higher is better on every axis.
+
+export interface Criterion {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export const DEFAULT_CRITERIA: Criterion[] = [
+  { id: 'risk', label: 'Risk', description: 'How safe the option is (10 = lowest risk of a bad outcome).' },
+  { id: 'cost', label: 'Cost', description: 'Money, time and effort required (10 = cheapest).' },
+  { id: 'reversibility', label: 'Reversibility', description: 'How easily the decision can be undone (10 = fully reversible).' },
+  { id: 'goal_alignment', label: 'Goal alignment', description: 'How well the option serves the stated goals (10 = perfect fit).' },
+];
+
+export interface WeightedCriterion extends Criterion {
+  weight: number;
+}
+
+const slug = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Turns user input such as [{ label: 'Cost', weight: 40 }] into criteria with
+// unique ids. Blank labels and non-positive weights are dropped.
+export function toWeightedCriteria(raw: unknown): WeightedCriterion[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  return raw
+    .map((entry: any) => ({
+      label: String(entry?.label || '').replace(/[\x00-\x1F\x7F]/g, '').trim(),
+      weight: Number(entry?.weight),
+    }))
+    .filter((entry) => entry.label && Number.isFinite(entry.weight) && entry.weight > 0)
+    .map((entry, index) => {
+      let id = slug(entry.label) || `criterion_${index + 1}`;
+      while (seen.has(id)) id = `${id}_${index + 1}`;
+      seen.add(id);
+      return {
+        id,
+        label: entry.label,
+        weight: entry.weight,
+        description: `User-defined criterion "${entry.label}" (10 = best for the user).`,
+      };
+    });
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { resolveModel } from '@/lib/llm/providers';
+import type { ChatModel, ModelInfo } from '@/lib/llm/types';
+import { checkCitations } from './schema';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- DEBATE ---
+// One advocate per option builds the best case for it from the library, then
+// every advocate answers the others in one or more rebuttal rounds. The judge
+// is the regular reasoning step, given the transcript (see pipeline.ts).
+
+// Rebuttal rounds after the openings
+const DEBATE_ROUNDS = Math.min(Math.max(Number(process.env.DEBATE_ROUNDS) || 1, 1), 3);
+// Cap on the tokens an advocate may generate per turn
+const DEBATE_TURN_TOKENS = Number(process.env.DEBATE_TURN_TOKENS) || 600;
+
+export type DebateTurnKind = 'opening' | 'rebuttal';
+
+export interface DebateTurn {
+  round: number;
+  kind: DebateTurnKind;
+  option: string;
+  argument: string;
+}
+
+export interface Debate {
+  rounds: number;
+  turns: DebateTurn[];
+  advocate: ModelInfo;
+}
+
+interface DebateInput {
+  problem: string;
+  options: string[];
+  context: string;
+  sourceKeys: string[];
+}
+
+interface DebateListeners {
+  onRoundStart?: (round: number, kind: DebateTurnKind) => void;
+  onRoundEnd?: (turns: DebateTurn[]) => void;
+}
+
+const argumentSchema = z.object({
+  argument: z
+    .string()
+    .min(1)
+    .describe('Your case in plain paragraphs, at most 200 words. Cite the library passages you rely on with their keys, e.g. [S1].'),
+});
+
+export function resolveAdvocate(selection: Partial<ModelInfo>): ChatModel {
+  return resolveModel(selection, 0.5, DEBATE_TURN_TOKENS);
+}
+
+export function formatTranscript(turns: DebateTurn[]): string {
+  return turns
+    .map((turn) => `Round ${turn.round} (${turn.kind}), advocate for "${turn.option}":\n${turn.argument}`)
+    .join('\n\n');
+}
+
+function briefing({ problem, options, context }: DebateInput): string {
+  return `User Problem: ${problem}
+User Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+CONTEXT FROM LIBRARY (STRICT):
+${context}`;
+}
+
+async function argue(advocate: ChatModel, input: DebateInput, option: string, round: number, previous: DebateTurn[]): Promise<DebateTurn> {
+  const kind: DebateTurnKind = previous.length === 0 ? 'opening' : 'rebuttal';
+  const task = kind === 'opening'
+    ? `Build the strongest case FOR "${option}" using only the library context.`
+    : `Rebut the other advocates' latest arguments below and defend "${option}", using only the library context.
+
+${formatTranscript(previous.filter((turn) => turn.round === round - 1 && turn.option !== option))}`;
+
+  const { argument } = await generateStructured({
+    model: advocate,
+    prompt: `You are the advocate for one option in a decision debate. A judge will pick the winner.
+
+${briefing(input)}
+
+${task}
+
+${formatInstructions(argumentSchema)}`,
+    schema: argumentSchema.superRefine((value, ctx) => checkCitations(value.argument, input.sourceKeys, ctx, ['argument'])),
+  });
+
+  return { round, kind, option, argument };
+}
+
+export async function runDebate(input: DebateInput, advocate: ChatModel, { onRoundStart, onRoundEnd }: DebateListeners = {}): Promise<Debate> {
+  const turns: DebateTurn[] = [];
+  const rounds = 1 + DEBATE_ROUNDS;
+
+  for (let round = 1; round <= rounds; round++) {
+    onRoundStart?.(round, round === 1 ? 'opening' : 'rebuttal');
+    // Advocates within a round only see earlier rounds, so they can argue in parallel
+    const previous = [...turns];
+    turns.push(...(await Promise.all(input.options.map((option) => argue(advocate, input, option, round, previous)))));
+    onRoundEnd?.([...turns]);
+  }
+
+  return { rounds, turns, advocate: advocate.info };
+}
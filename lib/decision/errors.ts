@@ -0,0 +1,12 @@
+// Errors thrown inside the decision pipeline carry the HTTP status the
+// route should answer with.
+export class DecisionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'DecisionError';
+    this.status = status;
+    Object.setPrototypeOf(this, DecisionError.prototype);
+  }
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import type { ChatModel } from '@/lib/llm/types';
+import { checkCitations, matchOption, sourceKeyOf } from './schema';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- OPTION EXPANSION ---
+// Users often frame false dichotomies ("fire her or coach her"). In expand
+// mode the library context is searched for alternatives they didn't list:
+// new options or hybrids of theirs, each grounded in a passage. Suggestions
+// are never recommended; the user adds them and re-runs the analysis.
+
+const MAX_SUGGESTIONS = 3;
+
+export interface SuggestedOption {
+  option: string;
+  // Why it is worth considering, citing the library
+  rationale: string;
+  // The passage it is grounded in
+  source: string;
+  // A combination of options the user already listed
+  hybrid: boolean;
+}
+
+const suggestionsSchema = z.object({
+  suggestions: z
+    .array(z.object({
+      proposal: z.string().min(1).describe('The new option, phrased like the user\'s options (one sentence).'),
+      rationale: z
+        .string()
+        .min(1)
+        .describe('Why it deserves a place on the list (40-80 words). Cite the library passages you rely on with their keys, e.g. [S1].'),
+      source: z.string().min(1).describe('The citation key of the passage that most directly suggests this option, e.g. "S3".'),
+      hybrid: z.boolean().describe('true if it combines or sequences options the user already listed.'),
+    }))
+    .min(1)
+    .describe(`1 to ${MAX_SUGGESTIONS} options the user did not list, best first.`),
+});
+
+interface ExpandInput {
+  problem: string;
+  options: string[];
+  context: string;
+  sourceKeys: string[];
+}
+
+export async function suggestOptions({ problem, options, context, sourceKeys }: ExpandInput, model: ChatModel): Promise<SuggestedOption[]> {
+  const { suggestions } = await generateStructured({
+    model,
+    prompt: `You are an expert decision consultant. The user may be framing a false choice. Using only frameworks and lessons found in the library context, propose options they did not list: genuinely different alternatives, or hybrids that combine or sequence their options. Do NOT repeat one of their options.
+
+User Problem: ${problem}
+User Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+CONTEXT FROM LIBRARY (STRICT):
+${context}
+
+${formatInstructions(suggestionsSchema)}`,
+    schema: suggestionsSchema.superRefine((value, ctx) => {
+      value.suggestions.forEach((suggestion, index) => {
+        if (matchOption(suggestion.proposal, options)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['suggestions', index, 'proposal'],
+            message: 'Repeats one of the user options; propose something they did not list',
+          });
+        }
+        checkCitations(suggestion.rationale, sourceKeys, ctx, ['suggestions', index, 'rationale']);
+        if (!sourceKeys.includes(sourceKeyOf(suggestion.source))) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['suggestions', index, 'source'],
+            message: `Unknown citation key "${suggestion.source}"; only ${sourceKeys.join(', ')} exist`,
+          });
+        }
+      });
+    }),
+  });
+
+  return suggestions.slice(0, MAX_SUGGESTIONS).map((suggestion) => ({
+    option: suggestion.proposal.trim(),
+    rationale: suggestion.rationale,
+    source: sourceKeyOf(suggestion.source),
+    hybrid: suggestion.hybrid,
+  }));
+}
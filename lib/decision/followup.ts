@@ -0,0 +1,274 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { assertEmbeddingSpace } from '@/lib/embeddings/guard';
+import { createEmbeddings } from '@/lib/embeddings/providers';
+import { isProviderId, resolveModel } from '@/lib/llm/providers';
+import type { ChatModel, ModelInfo, ProviderId } from '@/lib/llm/types';
+import { rerank } from '@/lib/retrieval/rerank';
+import { searchAll } from '@/lib/retrieval/queries';
+import { sanitizeClarifications, withClarifications, type Clarification } from './clarify';
+import { DecisionError } from './errors';
+import { checkCitations, matchOption } from './schema';
+import { formatContext, markCited, toSources, type Source } from './sources';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- FOLLOW-UP CONVERSATION ---
+// Questions about a finished decision ("what if the budget doubled?", "why
+// not option 3?"). The client sends the decision back as conversation state:
+// problem, options, the current recommendation and references to the
+// retrieved passages, whose text is reloaded from the library. Each follow-up
+// retrieves a few more passages, and when the user changes an assumption the
+// answer can revise the recommendation.
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// New passages retrieved per follow-up
+const FOLLOW_UP_CONTEXT = 4;
+// Bounds on what the client may send back, to keep the prompt in budget
+const MAX_SOURCES = 30;
+const MAX_HISTORY = 10;
+const MAX_MESSAGE_LENGTH = 2000;
+
+export interface FollowUpMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// A passage the conversation already has. Only the reference comes from the
+// client; the text is read from `documents`, so callers can't pass off their
+// own text as library context.
+export type SourceRef = Pick<Source, 'key' | 'id' | 'similarity' | 'channel' | 'options'>;
+
+export interface FollowUpState {
+  problem: string;
+  // Answers given to the clarifying questions before the analysis
+  clarifications?: Clarification[];
+  options: string[];
+  recommendation: string;
+  short_reason: string;
+  sources: SourceRef[];
+}
+
+export interface FollowUpRequest {
+  state: FollowUpState;
+  // Earlier turns, oldest first
+  history: FollowUpMessage[];
+  question: string;
+  provider?: ProviderId;
+  model?: string;
+}
+
+// Set when the answer changes the recommendation
+export interface Revision {
+  previous: string;
+  recommendation: string;
+  short_reason: string;
+  // What in the user's message changed the answer
+  what_changed: string;
+}
+
+export interface FollowUpResult {
+  answer: string;
+  revision: Revision | null;
+  // The state's sources plus the ones retrieved for this question, `cited` per this answer
+  sources: Source[];
+  // Keys of the passages retrieved for this question
+  newSources: string[];
+  model: ModelInfo;
+}
+
+export type FollowUpEvent =
+  | { type: 'stage'; message: string }
+  | { type: 'partial'; answer: string }
+  | { type: 'result'; result: FollowUpResult }
+  | { type: 'error'; error: string; status: number };
+
+const followUpSchema = z.object({
+  answer: z
+    .string()
+    .min(1)
+    .describe('The answer to the follow-up question. Cite the library passages you rely on with their keys, e.g. [S1].'),
+  revised: z
+    .boolean()
+    .describe('true only if the user changed an assumption or added a fact that makes a different option the best choice.'),
+  recommendation: z
+    .string()
+    .describe('The option that is best now, copied exactly. The current recommendation when revised is false.'),
+  short_reason: z.string().describe('One sentence on why that option is best now.'),
+  what_changed: z.string().describe('When revised is true, the change in the user\'s message that flipped the answer. Empty otherwise.'),
+});
+
+const clean = (text: unknown) => (typeof text === 'string' ? text.replace(/[\x00-\x1F\x7F]/g, ' ').trim() : '');
+
+function sanitizeSources(value: unknown, options: string[]): SourceRef[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((source) => source && typeof source.key === 'string' && /^S\d+$/.test(source.key) && Number.isInteger(source.id))
+    .filter((source, index, all) => all.findIndex((other) => other.key === source.key) === index)
+    .slice(0, MAX_SOURCES)
+    .map((source) => ({
+      key: source.key,
+      id: source.id,
+      similarity: Number(source.similarity) || 0,
+      channel: ['vector', 'keyword', 'both'].includes(source.channel) ? source.channel : 'vector',
+      // Only the decision's own options can label a passage
+      options: Array.isArray(source.options) ? source.options.filter((option: unknown) => typeof option === 'string' && options.includes(option)) : [],
+    }));
+}
+
+export function sanitizeFollowUp(body: any): FollowUpRequest {
+  const state = body.state || {};
+  const options = Array.isArray(state.options) ? state.options.map(clean).filter(Boolean) : [];
+  const question = clean(body.question).slice(0, MAX_MESSAGE_LENGTH);
+
+  if (!clean(state.problem) || options.length < 2 || !clean(state.recommendation)) {
+    throw new DecisionError('The follow-up needs the decision it is about: problem, options and recommendation.', 400);
+  }
+  if (!question) {
+    throw new DecisionError('The follow-up question is empty.', 400);
+  }
+  if (body.provider !== undefined && body.provider !== null && !isProviderId(body.provider)) {
+    throw new DecisionError(`Unknown LLM provider "${body.provider}".`, 400);
+  }
+
+  const history: FollowUpMessage[] = (Array.isArray(body.history) ? body.history : [])
+    .filter((message: any) => message && (message.role === 'user' || message.role === 'assistant'))
+    .map((message: any) => ({ role: message.role, content: clean(message.content).slice(0, MAX_MESSAGE_LENGTH) }))
+    .filter((message: FollowUpMessage) => message.content)
+    .slice(-MAX_HISTORY);
+
+  return {
+    state: {
+      problem: clean(state.problem),
+      clarifications: sanitizeClarifications(state.clarifications),
+      options,
+      recommendation: clean(state.recommendation),
+      short_reason: clean(state.short_reason),
+      sources: sanitizeSources(state.sources, options),
+    },
+    history,
+    question,
+    provider: body.provider || undefined,
+    model: typeof body.model === 'string' && body.model.trim() ? body.model.trim() : undefined,
+  };
+}
+
+// The conversation's passages with their text read from the library, in the
+// order the client listed them. References to chunks that no longer exist are dropped.
+async function loadSources(supabase: SupabaseClient, refs: SourceRef[]): Promise<Source[]> {
+  if (refs.length === 0) return [];
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, content, metadata')
+    .in('id', refs.map((ref) => ref.id));
+  if (error) {
+    console.error('Supabase Error:', error);
+    throw new DecisionError('Could not load the passages of this decision.');
+  }
+
+  const rows = new Map((data || []).map((row) => [row.id as number, row]));
+  return refs.flatMap((ref) => {
+    const row = rows.get(ref.id);
+    if (!row) return [];
+    const [source] = toSources([{ id: ref.id, content: row.content, metadata: row.metadata, similarity: ref.similarity, channel: ref.channel, options: ref.options }]);
+    return [{ ...source, key: ref.key }];
+  });
+}
+
+// Passages for this question that the conversation doesn't have yet, keyed
+// after the existing ones. Retrieval problems only cost the extra context.
+async function retrieveMore(supabase: SupabaseClient, { state, question }: FollowUpRequest, model: ChatModel): Promise<Source[]> {
+  if (state.sources.length >= MAX_SOURCES) return [];
+  try {
+    const embeddings = createEmbeddings('query');
+    await assertEmbeddingSpace(supabase, embeddings.spec);
+
+    const query = { kind: 'problem' as const, text: `${question}\n${withClarifications(state.problem, state.clarifications)}` };
+    const vector = await embeddings.embedQuery(query.text);
+    const known = new Set(state.sources.map((source) => source.id));
+    const candidates = (await searchAll(supabase, { queries: [query], vectors: [vector], spec: embeddings.spec }))
+      .filter((candidate) => !known.has(candidate.id));
+
+    const count = Math.min(FOLLOW_UP_CONTEXT, MAX_SOURCES - state.sources.length);
+    const documents = await rerank({ problem: question, options: state.options }, candidates, count, model);
+    const lastKey = Math.max(0, ...state.sources.map((source) => Number(source.key.slice(1))));
+    return toSources(documents, lastKey);
+  } catch (err: any) {
+    console.error('⚠️ Follow-up retrieval failed, answering from the existing context:', err.message);
+    return [];
+  }
+}
+
+export async function runFollowUp(input: FollowUpRequest, onEvent: (event: FollowUpEvent) => void = () => {}): Promise<FollowUpResult> {
+  if (!SUPABASE_URL || !SUPABASE_KEY) throw new DecisionError('Missing API Keys', 500);
+  const { state, history, question } = input;
+  const problem = withClarifications(state.problem, state.clarifications);
+  const model = resolveModel({ provider: input.provider, model: input.model }, 0.1);
+
+  // --- RETRIEVAL ---
+  console.log('🔍 Retrieving context for the follow-up...');
+  onEvent({ type: 'stage', message: 'Searching the library for your question' });
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_KEY!);
+  const known = await loadSources(supabase, state.sources);
+  const fresh = await retrieveMore(supabase, input, model);
+  const sources = [...known, ...fresh];
+  const sourceKeys = sources.map((source) => source.key);
+
+  // --- ANSWER ---
+  console.log(`🤖 Answering the follow-up with ${model.info.provider} (${model.info.model})...`);
+  onEvent({ type: 'stage', message: fresh.length > 0 ? `Answering with ${fresh.length} new passage${fresh.length === 1 ? '' : 's'}` : 'Answering from the earlier passages' });
+
+  const transcript = history.map((message) => `${message.role === 'user' ? 'User' : 'You'}: ${message.content}`).join('\n\n');
+  let lastAnswer = '';
+  const output = await generateStructured({
+    model,
+    prompt: `You are an expert decision consultant continuing a conversation about a decision you already analysed. Answer the user's follow-up using only frameworks and lessons from the library context.
+
+User Problem: ${problem}
+User Options:
+${state.options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+Current recommendation: ${state.recommendation}
+Because: ${state.short_reason}
+
+CONTEXT FROM LIBRARY (STRICT):
+${formatContext(sources)}
+${transcript ? `\nCONVERSATION SO FAR:\n${transcript}\n` : ''}
+Follow-up: ${question}
+
+If the follow-up changes an assumption (budget, timing, people, constraints) so that a different option is now best, set "revised" to true, give the new recommendation and say what changed. Otherwise keep the current recommendation.
+
+${formatInstructions(followUpSchema)}`,
+    schema: followUpSchema.superRefine((value, ctx) => {
+      checkCitations(value.answer, sourceKeys, ctx, ['answer']);
+      if (!matchOption(value.recommendation, state.options)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['recommendation'],
+          message: `Must be one of the user options, copied exactly: ${state.options.map((o) => JSON.stringify(o)).join(', ')}`,
+        });
+      }
+    }),
+    onPartial: (value: any) => {
+      if (value && typeof value.answer === 'string' && value.answer !== lastAnswer) {
+        lastAnswer = value.answer;
+        onEvent({ type: 'partial', answer: value.answer });
+      }
+    },
+  });
+
+  const recommendation = matchOption(output.recommendation, state.options)!;
+  // A revision has to actually change the pick
+  const revised = output.revised && matchOption(state.recommendation, state.options) !== recommendation;
+
+  return {
+    answer: output.answer,
+    revision: revised
+      ? { previous: state.recommendation, recommendation, short_reason: output.short_reason, what_changed: output.what_changed }
+      : null,
+    sources: markCited(sources, output.answer),
+    newSources: fresh.map((source) => source.key),
+    model: model.info,
+  };
+}
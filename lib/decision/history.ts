@@ -0,0 +1,136 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Clarification } from './clarify';
+import { DecisionError } from './errors';
+import { isTemplateId, type TemplateId } from './templates';
+import { UNABLE_TO_ANALYZE, type DecisionMode, type DecisionRequest, type DecisionResult } from './types';
+
+// --- DECISION HISTORY ---
+// Every answered request is stored with the full result, so the /history
+// page can list, search and reopen past decisions. Storing is best-effort:
+// a result is still returned when the database is unavailable.
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const client = () => createClient(SUPABASE_URL!, SUPABASE_KEY!);
+
+const PAGE_SIZE = 20;
+const MAX_QUERY_LENGTH = 200;
+const MODES: DecisionMode[] = ['standard', 'mcda', 'debate', 'premortem'];
+
+// One row of the history list
+export interface DecisionSummary {
+  id: string;
+  created_at: string;
+  problem: string;
+  options: string[];
+  mode: DecisionMode;
+  template: TemplateId | null;
+  model: string | null;
+  prompt_id: string;
+  recommendation: string;
+  abstained: boolean;
+  confidence: number | null;
+}
+
+export interface SavedDecision extends DecisionSummary {
+  clarifications: Clarification[];
+  // The retrieved `documents` rows, in citation-key order
+  chunk_ids: number[];
+  result: DecisionResult;
+}
+
+export interface HistoryFilters {
+  // Full-text search over the problem and recommendation
+  q?: string;
+  mode?: DecisionMode;
+  template?: TemplateId;
+  outcome?: 'recommended' | 'abstained';
+  page: number;
+}
+
+export interface HistoryPage {
+  decisions: DecisionSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const SUMMARY_COLUMNS = 'id, created_at, problem, options, mode, template, model, prompt_id, recommendation, abstained, confidence';
+
+// Unknown filter values are ignored rather than rejected, so a stale link still lists something
+export function parseHistoryFilters(params: URLSearchParams): HistoryFilters {
+  const q = (params.get('q') || '').replace(/[\x00-\x1F\x7F]/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+  const mode = params.get('mode');
+  const template = params.get('template');
+  const outcome = params.get('outcome');
+
+  return {
+    q: q || undefined,
+    mode: MODES.includes(mode as DecisionMode) ? (mode as DecisionMode) : undefined,
+    template: template && isTemplateId(template) ? template : undefined,
+    outcome: outcome === 'recommended' || outcome === 'abstained' ? outcome : undefined,
+    page: Math.max(Math.round(Number(params.get('page'))) || 1, 1),
+  };
+}
+
+// Returns the decision id, or null when the decision could not be stored
+export async function saveDecision(input: DecisionRequest, result: DecisionResult): Promise<string | null> {
+  try {
+    const { data, error } = await client()
+      .from('decisions')
+      .insert({
+        problem: input.problem,
+        options: input.options,
+        clarifications: input.clarifications || [],
+        mode: input.mode,
+        template: result.template?.id ?? null,
+        chunk_ids: result.sources.map((source) => source.id),
+        model: result.model ? `${result.model.provider}:${result.model.model}` : null,
+        prompt_id: result.prompt.id,
+        prompt_sha256: result.prompt.hash,
+        run_id: result.runId ?? null,
+        recommendation: result.recommendation,
+        abstained: result.recommendation === UNABLE_TO_ANALYZE,
+        confidence: result.confidence ?? null,
+        result,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id;
+  } catch (err: any) {
+    console.error('⚠️ Could not save the decision:', err.message);
+    return null;
+  }
+}
+
+export async function listDecisions(filters: HistoryFilters): Promise<HistoryPage> {
+  const from = (filters.page - 1) * PAGE_SIZE;
+  let query = client()
+    .from('decisions')
+    .select(SUMMARY_COLUMNS, { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + PAGE_SIZE - 1);
+
+  if (filters.q) query = query.textSearch('search', filters.q, { type: 'websearch', config: 'english' });
+  if (filters.mode) query = query.eq('mode', filters.mode);
+  if (filters.template) query = query.eq('template', filters.template);
+  if (filters.outcome) query = query.eq('abstained', filters.outcome === 'abstained');
+
+  const { data, error, count } = await query;
+  if (error) throw new DecisionError('Could not load the decision history.', 500);
+
+  return { decisions: (data || []) as DecisionSummary[], total: count ?? 0, page: filters.page, pageSize: PAGE_SIZE };
+}
+
+export async function getDecision(id: string): Promise<SavedDecision> {
+  const { data, error } = await client()
+    .from('decisions')
+    .select(`${SUMMARY_COLUMNS}, clarifications, chunk_ids, result`)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new DecisionError('Could not load the decision.', 500);
+  if (!data) throw new DecisionError('Unknown decision.', 404);
+  return data as SavedDecision;
+}
@@ -0,0 +1,106 @@
+import { createClient } from '@supabase/supabase-js';
+import { calibrate, REVIEW_OUTCOMES, type CalibrationStats, type DecisionOutcome, type ReviewOutcome } from './calibration';
+import { DecisionError } from './errors';
+
+// --- DECISION JOURNAL ---
+// Users return to a saved decision to record what they chose and how it went.
+// Every visit adds an entry; the latest one per decision (the
+// `decision_outcomes` view) is what the calibration dashboard measures.
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const client = () => createClient(SUPABASE_URL!, SUPABASE_KEY!);
+
+const MAX_CHOICE_LENGTH = 500;
+const MAX_NOTES_LENGTH = 2000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ReviewInput {
+  chosen_option: string;
+  outcome: ReviewOutcome;
+  // 1-5
+  satisfaction: number | null;
+  notes: string | null;
+  // YYYY-MM-DD
+  next_review_on: string | null;
+}
+
+export interface JournalEntry extends ReviewInput {
+  id: number;
+  decision_id: string;
+  created_at: string;
+}
+
+export interface CalibrationReport {
+  stats: CalibrationStats;
+  // Decisions whose next review date has come, oldest first
+  due: DecisionOutcome[];
+}
+
+export function sanitizeReview(body: any): ReviewInput {
+  const clean = (text: unknown) => (typeof text === 'string' ? text.replace(/[\x00-\x08\x0B-\x1F\x7F]/g, ' ').trim() : '');
+
+  const chosen = clean(body.chosen_option).slice(0, MAX_CHOICE_LENGTH);
+  if (!chosen) {
+    throw new DecisionError('Say which option you actually chose.', 400);
+  }
+  if (!REVIEW_OUTCOMES.some((entry) => entry.id === body.outcome)) {
+    throw new DecisionError(`outcome must be one of ${REVIEW_OUTCOMES.map((entry) => entry.id).join(', ')}.`, 400);
+  }
+
+  const satisfaction = body.satisfaction === undefined || body.satisfaction === null ? null : Number(body.satisfaction);
+  if (satisfaction !== null && !(Number.isInteger(satisfaction) && satisfaction >= 1 && satisfaction <= 5)) {
+    throw new DecisionError('satisfaction must be a whole number from 1 to 5.', 400);
+  }
+
+  const nextReview = clean(body.next_review_on);
+  if (nextReview && !(ISO_DATE.test(nextReview) && !isNaN(Date.parse(nextReview)))) {
+    throw new DecisionError('next_review_on must be a date (YYYY-MM-DD).', 400);
+  }
+
+  return {
+    chosen_option: chosen,
+    outcome: body.outcome,
+    satisfaction,
+    notes: clean(body.notes).slice(0, MAX_NOTES_LENGTH) || null,
+    next_review_on: nextReview || null,
+  };
+}
+
+export async function addReview(decisionId: string, review: ReviewInput): Promise<JournalEntry> {
+  const { data, error } = await client()
+    .from('decision_reviews')
+    .insert({ decision_id: decisionId, ...review })
+    .select()
+    .single();
+  if (error) {
+    // 23503: the decision doesn't exist
+    throw new DecisionError(error.code === '23503' ? 'Unknown decision.' : 'Could not save the review.', error.code === '23503' ? 404 : 500);
+  }
+  return data as JournalEntry;
+}
+
+// Oldest first, so the journal reads in the order the decision unfolded
+export async function listReviews(decisionId: string): Promise<JournalEntry[]> {
+  const { data, error } = await client()
+    .from('decision_reviews')
+    .select()
+    .eq('decision_id', decisionId)
+    .order('created_at', { ascending: true });
+  if (error) throw new DecisionError('Could not load the journal.', 500);
+  return (data || []) as JournalEntry[];
+}
+
+export async function loadCalibration(today = new Date().toISOString().slice(0, 10)): Promise<CalibrationReport> {
+  const { data, error } = await client().from('decision_outcomes').select();
+  if (error) throw new DecisionError('Could not load the decision outcomes.', 500);
+
+  const outcomes = (data || []) as DecisionOutcome[];
+  return {
+    stats: calibrate(outcomes),
+    due: outcomes
+      .filter((entry) => entry.next_review_on !== null && entry.next_review_on <= today)
+      .sort((a, b) => a.next_review_on!.localeCompare(b.next_review_on!)),
+  };
+}
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { WeightedCriterion } from './criteria';
+import { computeWeightedAnalysis } from './mcda';
+import type { OptionScores } from './schema';
+
+const criterion = (id: string, weight: number): WeightedCriterion => ({ id, label: id, description: id, weight });
+
+const scored = (option: string, scores: Record<string, number>): OptionScores => ({
+  option,
+  scores: Object.keys(scores).map((id) => ({ criterion: id, score: scores[id], justification: 'Because.' })),
+});
+
+describe('computeWeightedAnalysis', () => {
+  it('normalises the weights so they sum to 1', () => {
+    const analysis = computeWeightedAnalysis([scored('A', { cost: 8, risk: 2 })], [criterion('cost', 30), criterion('risk', 10)], 'A');
+    const [entry] = analysis.ranking;
+
+    assert.deepEqual(entry.contributions.map((c) => c.weight), [0.75, 0.25]);
+    assert.deepEqual(entry.contributions.map((c) => c.contribution), [6, 0.5]);
+    assert.equal(entry.total, 6.5);
+  });
+
+  it('gives the same ranking for weights on any scale', () => {
+    const scores = [scored('A', { cost: 9, risk: 3 }), scored('B', { cost: 4, risk: 8 })];
+    const small = computeWeightedAnalysis(scores, [criterion('cost', 1), criterion('risk', 2)], 'B');
+    const large = computeWeightedAnalysis(scores, [criterion('cost', 50), criterion('risk', 100)], 'B');
+
+    assert.deepEqual(large.ranking, small.ranking);
+    assert.equal(small.winner, 'B');
+    assert.equal(small.agreesWithRecommendation, true);
+  });
+
+  it('keeps the user option order on ties', () => {
+    const scores = [scored('A', { cost: 5, risk: 7 }), scored('B', { cost: 7, risk: 5 }), scored('C', { cost: 6, risk: 6 })];
+    const analysis = computeWeightedAnalysis(scores, [criterion('cost', 1), criterion('risk', 1)], 'C');
+
+    assert.deepEqual(analysis.ranking.map((entry) => entry.option), ['A', 'B', 'C']);
+    assert.equal(analysis.winner, 'A');
+    assert.equal(analysis.agreesWithRecommendation, false);
+  });
+
+  it('counts a criterion the model did not score as 0', () => {
+    const analysis = computeWeightedAnalysis(
+      [scored('A', { cost: 10 }), scored('B', { cost: 6, risk: 6 })],
+      [criterion('cost', 1), criterion('risk', 1)],
+      'A'
+    );
+
+    assert.deepEqual(analysis.ranking.map((entry) => [entry.option, entry.total]), [['B', 6], ['A', 5]]);
+  });
+});
@@ -0,0 +1,48 @@
+import type { WeightedCriterion } from './criteria';
+import type { OptionScores } from './schema';
+
+// --- MULTI-CRITERIA DECISION ANALYSIS ---
+// The model only scores; the weighted totals are computed here so the ranking
+// is reproducible from the scores and weights alone.
+
+export interface CriterionContribution {
+  criterion: string;
+  weight: number; // normalized, all weights sum to 1
+  score: number;
+  contribution: number; // weight * score
+}
+
+export interface WeightedOption {
+  option: string;
+  total: number; // on the same 1-10 scale as the scores
+  contributions: CriterionContribution[];
+}
+
+export interface WeightedAnalysis {
+  ranking: WeightedOption[];
+  winner: string;
+  agreesWithRecommendation: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function computeWeightedAnalysis(scores: OptionScores[], criteria: WeightedCriterion[], recommendation: string): WeightedAnalysis {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  const ranking = scores
+    .map((entry) => {
+      let total = 0;
+      const contributions = criteria.map((criterion) => {
+        const score = entry.scores.find((s) => s.criterion === criterion.id)?.score ?? 0;
+        const weight = criterion.weight / totalWeight;
+        total += weight * score;
+        return { criterion: criterion.id, weight: round(weight), score, contribution: round(weight * score) };
+      });
+      return { option: entry.option, total: round(total), contributions };
+    })
+    // Stable sort keeps the user's option order on ties
+    .sort((a, b) => b.total - a.total);
+
+  const winner = ranking[0]?.option || '';
+  return { ranking, winner, agreesWithRecommendation: winner === recommendation };
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { DecisionEvent, DecisionRequest } from './types';
+
+// --- END-TO-END PIPELINE ---
+// Runs the whole decision pipeline offline: the fake LLM provider answers
+// every model call, the hashing model embeds the queries and Supabase is a
+// stubbed fetch that serves a small library.
+
+const OPTIONS = ['Take the new job', 'Stay in the current role'];
+
+const CHUNKS = [
+  { id: 1, content: 'Taking a new job trades security for growth; weigh the learning curve.', metadata: { source: 'Decisive' } },
+  { id: 2, content: 'Staying in the current role keeps momentum and relationships you have built.', metadata: { source: 'Range' } },
+  { id: 3, content: 'Regret minimisation: picture yourself at eighty looking back on the choice.', metadata: { source: 'The Almanack' } },
+];
+
+function json(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' }, ...init });
+}
+
+// Answers the few PostgREST calls the pipeline makes
+async function fakeSupabase(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+  const method = init?.method || 'GET';
+
+  if (url.pathname === '/rest/v1/embedding_models') return json([{ dimensions: 384 }]);
+  if (url.pathname === '/rest/v1/document_embeddings') {
+    return new Response(method === 'HEAD' ? null : '[]', { status: 200, headers: { 'content-range': `0-0/${CHUNKS.length}` } });
+  }
+  if (url.pathname === '/rest/v1/rpc/match_documents_for_model') {
+    return json(CHUNKS.map((chunk, idx) => ({ ...chunk, similarity: 0.8 - idx * 0.05 })));
+  }
+  return json({ message: `Unexpected request: ${method} ${url.pathname}` }, { status: 404 });
+}
+
+let pipeline: typeof import('./pipeline');
+
+before(async () => {
+  // Settings are read when the modules load
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test';
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-key';
+  process.env.LLM_PROVIDER = 'fake';
+  process.env.EMBEDDING_MODEL = 'local:hashing-384';
+  globalThis.fetch = fakeSupabase as typeof fetch;
+  console.log = () => {};
+
+  pipeline = await import('./pipeline');
+});
+
+describe('sanitizeRequest', () => {
+  it('rejects fewer than two non-empty options', () => {
+    for (const options of [undefined, [], ['Take the new job'], ['Take the new job', '  ', '\n']]) {
+      assert.throws(() => pipeline.sanitizeRequest({ problem: 'Which job?', options }), { status: 400 });
+    }
+  });
+
+  it('rejects options that are not strings', () => {
+    for (const options of ['Take the new job', [...OPTIONS, 3], [...OPTIONS, null], { 0: 'Take the new job' }]) {
+      assert.throws(() => pipeline.sanitizeRequest({ problem: 'Which job?', options }), { status: 400 });
+    }
+  });
+
+  it('keeps the options once there are two', () => {
+    assert.deepEqual(pipeline.sanitizeRequest({ problem: 'Which job?', options: OPTIONS }).options, OPTIONS);
+  });
+
+  it('treats a null provider, template and prompt version as unset', () => {
+    const request = pipeline.sanitizeRequest({ problem: 'Which job?', options: OPTIONS, provider: null, template: null, promptVersion: null });
+    assert.equal(request.provider, undefined);
+    assert.equal(request.template, undefined);
+    assert.equal(request.promptVersion, undefined);
+  });
+
+  it('drops blank options from the request', () => {
+    const request = pipeline.sanitizeRequest({ problem: 'Which job?', options: [OPTIONS[0], '  ', OPTIONS[1], '\n\t'] });
+    assert.deepEqual(request.options, OPTIONS);
+  });
+});
+
+describe('runDecision', () => {
+  const runDecision = (input: DecisionRequest, onEvent?: (event: DecisionEvent) => void) => pipeline.runDecision(input, onEvent);
+
+  const request = (overrides: Partial<DecisionRequest> = {}): DecisionRequest => ({
+    problem: 'Should I take the job offer from a startup or stay where I am?',
+    options: OPTIONS,
+    mode: 'standard',
+    criteria: [],
+    clarifications: [],
+    ...overrides,
+  });
+
+  it('recommends one of the options with the fake provider', async () => {
+    const events: DecisionEvent[] = [];
+    const result = await runDecision(request(), (event) => events.push(event));
+
+    assert.ok(OPTIONS.includes(result.recommendation), `unexpected recommendation "${result.recommendation}"`);
+    assert.equal(result.model?.provider, 'fake');
+    assert.deepEqual(result.ranking.map((entry) => entry.option).sort(), [...OPTIONS].sort());
+    assert.ok(result.prompt.id);
+    assert.ok(result.sources.length > 0);
+    assert.ok(result.confidence !== undefined && result.confidence > 0 && result.confidence <= 1);
+
+    const stages = events.flatMap((event) => (event.type === 'stage' ? [event.stage] : []));
+    assert.deepEqual(stages, ['classifying', 'embedding', 'retrieving', 'reranking', 'reasoning']);
+  });
+
+  it('gives the same answer to the same question', async () => {
+    const first = await runDecision(request());
+    const second = await runDecision(request());
+
+    assert.equal(second.recommendation, first.recommendation);
+    assert.equal(second.detailed_reasoning, first.detailed_reasoning);
+  });
+
+  it('runs the optional stages with the fake provider', async () => {
+    const result = await runDecision(request({ mode: 'premortem', challenge: true, samples: 2 }));
+
+    assert.ok(OPTIONS.includes(result.recommendation));
+    assert.ok(result.challenge);
+    assert.equal(result.consistency?.samples, 2);
+    assert.ok(result.premortem);
+  });
+});
@@ -0,0 +1,419 @@
+import { createClient } from '@supabase/supabase-js';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { assertEmbeddingSpace } from '@/lib/embeddings/guard';
+import { EmbeddingError } from '@/lib/embeddings/models';
+import { createEmbeddings } from '@/lib/embeddings/providers';
+import { isProviderId, resolveModel } from '@/lib/llm/providers';
+import type { ModelInfo } from '@/lib/llm/types';
+import { activeReranker, rerank } from '@/lib/retrieval/rerank';
+import { describeQueries, planQueries, searchAll, withOptionCoverage } from '@/lib/retrieval/queries';
+import { isHybridSearchEnabled } from '@/lib/retrieval/search';
+import { assignPrompt } from '@/lib/prompts/experiment';
+import { FORMAT_INSTRUCTIONS, isPromptId } from '@/lib/prompts/registry';
+import { resolveCritic, runChallenge, type Challenge } from './challenge';
+import { sanitizeClarifications, withClarifications } from './clarify';
+import { classifyProblem } from './classify';
+import { MAX_SAMPLES, resolveSamplers, rotate, tallyVotes, type Consistency } from './consistency';
+import { toWeightedCriteria, type Criterion } from './criteria';
+import { formatTranscript, resolveAdvocate, runDebate, type Debate } from './debate';
+import { DecisionError } from './errors';
+import { suggestOptions } from './expand';
+import { computeWeightedAnalysis } from './mcda';
+import { runPremortem } from './premortem';
+import { formatContext, markCited, toSources, type Source } from './sources';
+import { decisionSchemaFor, type DecisionOutput, type RankedOption } from './schema';
+import { generateStructured } from './structured';
+import { getTemplate, isTemplateId, type DecisionTemplate } from './templates';
+import { abstainAfterReasoning, abstainBeforeReasoning, assessEvidence, type Abstention, type EvidenceAssessment } from './sufficiency';
+import { UNABLE_TO_ANALYZE, type DecisionEvent, type DecisionMode, type DecisionRequest, type DecisionResult, type PromptRef } from './types';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Candidates are over-fetched by the retrieval queries so the reranker and
+// the diversity pass have room to choose
+const CONTEXT_COUNT = 10;
+
+// The reasoning prompt text lives in the versioned registry (lib/prompts/registry.ts)
+
+export type DecisionListener = (event: DecisionEvent) => void;
+
+export function assertConfigured() {
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    throw new DecisionError('Missing API Keys', 500);
+  }
+}
+
+// Strips control characters that break the prompt and the JSON contract.
+export function sanitizeRequest(body: any): DecisionRequest {
+  const mode: DecisionMode = ['mcda', 'debate', 'premortem'].includes(body.mode) ? body.mode : 'standard';
+  const criteria = toWeightedCriteria(body.criteria);
+
+  if (body.options != null && (!Array.isArray(body.options) || body.options.some((o: unknown) => typeof o !== 'string'))) {
+    throw new DecisionError('Options must be a list of strings.', 400);
+  }
+  // Blank options are dropped; the schema would otherwise demand scores and a ranking slot for them
+  const options: string[] = (body.options || [])
+    .map((o: string) => o.replace(/[\x00-\x1F\x7F]/g, ''))
+    .filter((o: string) => o.trim());
+  if (options.length < 2) {
+    throw new DecisionError('At least two options are required.', 400);
+  }
+  if (mode === 'mcda' && criteria.length === 0) {
+    throw new DecisionError('MCDA mode needs at least one criterion with a positive weight.', 400);
+  }
+  if (body.template !== undefined && body.template !== null && !isTemplateId(body.template)) {
+    throw new DecisionError(`Unknown decision template "${body.template}".`, 400);
+  }
+  if (body.promptVersion !== undefined && body.promptVersion !== null && !isPromptId(body.promptVersion)) {
+    throw new DecisionError(`Unknown prompt version "${body.promptVersion}".`, 400);
+  }
+  if (body.provider !== undefined && body.provider !== null && !isProviderId(body.provider)) {
+    throw new DecisionError(`Unknown LLM provider "${body.provider}".`, 400);
+  }
+
+  return {
+    problem: (body.problem || '').replace(/[\x00-\x1F\x7F]/g, ''),
+    options,
+    mode,
+    criteria,
+    template: body.template || undefined,
+    provider: body.provider || undefined,
+    model: typeof body.model === 'string' && body.model.trim() ? body.model.trim() : undefined,
+    challenge: body.challenge === true,
+    expandOptions: body.expandOptions === true,
+    promptVersion: body.promptVersion || undefined,
+    clarifications: sanitizeClarifications(body.clarifications),
+    samples: Math.min(Math.max(Math.round(Number(body.samples)) || 1, 1), MAX_SAMPLES),
+  };
+}
+
+// Keeps only the contract fields from a partially streamed object.
+function pickPartial(value: unknown): Partial<DecisionResult> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const partial: Partial<DecisionResult> = {};
+  const fields: ('recommendation' | 'short_reason' | 'detailed_reasoning')[] = ['recommendation', 'short_reason', 'detailed_reasoning'];
+  for (const field of fields) {
+    const fieldValue = (value as Record<string, unknown>)[field];
+    if (typeof fieldValue === 'string') partial[field] = fieldValue;
+  }
+  return partial;
+}
+
+function abstentionResult(abstention: Abstention, assessment: EvidenceAssessment, sources: Source[], model: ModelInfo | null, prompt: PromptRef): DecisionResult {
+  return {
+    recommendation: UNABLE_TO_ANALYZE,
+    short_reason: abstention.message,
+    detailed_reasoning: abstention.details.join('\n'),
+    scores: [],
+    evidence: [],
+    ranking: [],
+    criteria: [],
+    sources,
+    model,
+    prompt,
+    assessment,
+    confidence: 0,
+    abstention,
+  };
+}
+
+// Moves the pick a challenge switched to to the top of the ranking; the
+// critique becomes the reason the original pick lost
+function promote(ranking: RankedOption[], recommendation: string, challenge: Challenge): RankedOption[] {
+  return [
+    { option: recommendation, why_not: '', would_win_if: '' },
+    ...ranking
+      .filter((entry) => entry.option !== recommendation)
+      .map((entry) => (entry.option === challenge.original_recommendation ? { ...entry, why_not: challenge.critique } : entry)),
+  ];
+}
+
+interface PromptInput {
+  persona: string;
+  guidance: string;
+  problem: string;
+  options: string[];
+  criteria: Criterion[];
+  context: string;
+  debate: string;
+}
+
+function reasoningPrompt(template: string, { options, criteria, ...rest }: PromptInput): Promise<string> {
+  return PromptTemplate.fromTemplate(template).format({
+    ...rest,
+    options: options.map((option, idx) => `${idx + 1}. ${option}`).join('\n'),
+    criteria: criteria.map((c) => `- "${c.id}": ${c.description}`).join('\n'),
+    format_instructions: FORMAT_INSTRUCTIONS,
+  });
+}
+
+// Runs template classification -> embedding -> retrieval -> reranking
+// (-> debate) -> reasoning (-> self-consistency) -> evidence assessment
+// (-> challenge -> pre-mortem -> option expansion). Progress is reported
+// through `onEvent` so the route can forward it as a stream; callers that only
+// want the final answer can omit the listener.
+export async function runDecision(input: DecisionRequest, onEvent: DecisionListener = () => {}): Promise<DecisionResult> {
+  assertConfigured();
+  const { options } = input;
+  // Answers to the clarifying questions become part of the problem everywhere
+  const problem = withClarifications(input.problem, input.clarifications);
+  // Resolved up front so a misconfigured provider fails before any work is done
+  const model = resolveModel({ provider: input.provider, model: input.model }, 0.1);
+  const critic = input.challenge ? resolveCritic({ provider: input.provider, model: input.model }) : null;
+  const advocate = input.mode === 'debate' ? resolveAdvocate({ provider: input.provider, model: input.model }) : null;
+  const samplers = input.samples && input.samples > 1 ? resolveSamplers(input.samples - 1, { provider: input.provider, model: input.model }) : [];
+  // The same question always lands in the same arm of a prompt experiment
+  const prompt = assignPrompt(`${input.problem}\n${options.join('\n')}`, input.promptVersion);
+  console.log(`📝 Prompt: ${prompt.ref.id}${prompt.ref.experiment ? ` (experiment ${prompt.ref.experiment})` : ''}`);
+
+  // --- STEP 0: TEMPLATE ---
+  // The template shapes the persona, the criteria and the retrieval queries
+  let template: DecisionTemplate;
+  if (input.template) {
+    template = getTemplate(input.template);
+  } else {
+    onEvent({ type: 'stage', stage: 'classifying', message: 'Working out what kind of decision this is' });
+    template = await classifyProblem(problem, options, model);
+  }
+  console.log(`🗂️ Template: ${template.label}${input.template ? '' : ' (auto-detected)'}`);
+  const templateInfo = { id: template.id, label: template.label, auto: !input.template };
+  onEvent({ type: 'partial', result: { template: templateInfo, prompt: prompt.ref } });
+  const criteria = input.mode === 'mcda' ? input.criteria : template.criteria;
+
+  // --- STEP 1: EMBEDDING ---
+  console.log('🧠 Generating Embedding...');
+  onEvent({ type: 'stage', stage: 'embedding', message: 'Embedding your problem and options' });
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_KEY!);
+
+  const embeddings = createEmbeddings('query');
+  const queries = await planQueries({ problem, options, hints: template.retrievalHints }, model);
+
+  let vectors: number[][];
+  try {
+    // Only search the space of the model that embeds the query
+    await assertEmbeddingSpace(supabase, embeddings.spec);
+    vectors = await Promise.all(queries.map((query) => embeddings.embedQuery(query.text)));
+  } catch (err: any) {
+    // Configuration problems surface as-is; anything else is the provider failing
+    if (err instanceof EmbeddingError) throw err;
+    console.error('❌ Embedding Failed:', err.message);
+    throw new DecisionError('Embedding service busy.', 503);
+  }
+
+  // --- STEP 2: RETRIEVAL ---
+  console.log('🔍 Searching Knowledge Base...');
+  const candidates = await searchAll(supabase, { queries, vectors, spec: embeddings.spec, threshold: 0.1 });
+
+  onEvent({
+    type: 'stage',
+    stage: 'retrieving',
+    message: `Retrieved ${candidates.length} candidate chunks with ${queries.length} queries (${describeQueries(queries)})${isHybridSearchEnabled() ? ' using keyword + vector search' : ''}`,
+    count: candidates.length
+  });
+
+  // --- STEP 3: RERANKING ---
+  // Rescored against the problem and the options, spread across books, then
+  // topped up so every option keeps some evidence of its own
+  const reranked = await rerank({ problem, options }, candidates, CONTEXT_COUNT, model);
+  const documents = withOptionCoverage(reranked, candidates, options);
+  const books = new Set(documents.map((document) => document.metadata?.source)).size;
+
+  if (candidates.length > 0) {
+    onEvent({
+      type: 'stage',
+      stage: 'reranking',
+      message: `Kept the ${documents.length} most relevant chunks from ${books} book${books === 1 ? '' : 's'} (reranker: ${activeReranker()})`,
+      count: documents.length
+    });
+  }
+
+  // Abstain before spending a model call when there's nothing to reason over
+  const sources = toSources(documents);
+  const retrievalAssessment = assessEvidence(documents, options);
+  const early = abstainBeforeReasoning(documents, retrievalAssessment);
+  if (early) {
+    console.log(`⚠️ Abstaining: ${early.code}`);
+    return { ...abstentionResult(early, retrievalAssessment, sources, null, prompt.ref), template: templateInfo };
+  }
+
+  const contextText = formatContext(sources);
+  console.log(`✅ Found ${documents.length} book chunks.`);
+  // Sources go out early so streamed citations can already be resolved
+  onEvent({ type: 'partial', result: { sources } });
+
+  const sourceKeys = sources.map((source) => source.key);
+
+  // --- STEP 4: DEBATE (debate mode) ---
+  let debate: Debate | null = null;
+  if (advocate) {
+    console.log(`🗣️ Debating with ${advocate.info.provider} (${advocate.info.model})...`);
+    debate = await runDebate({ problem, options, context: contextText, sourceKeys }, advocate, {
+      onRoundStart: (round, kind) => onEvent({
+        type: 'stage',
+        stage: 'debating',
+        message: kind === 'opening' ? 'Advocates are making their opening cases' : `Advocates are rebutting each other (round ${round})`,
+      }),
+      onRoundEnd: (turns) => onEvent({ type: 'partial', result: { debate: { rounds: turns[turns.length - 1].round, turns, advocate: advocate.info } } }),
+    });
+  }
+
+  // --- STEP 5: REASONING (LLM) ---
+  console.log(`🤖 Asking ${model.info.provider} (${model.info.model})...`);
+  onEvent({ type: 'stage', stage: 'reasoning', message: debate ? 'The judge is weighing the debate' : 'Reasoning over the retrieved frameworks' });
+
+  const promptInput: PromptInput = {
+    persona: template.persona,
+    guidance: template.guidance.length > 0
+      ? `When analysing ${template.label.toLowerCase()} decisions:\n${template.guidance.map((line) => `- ${line}`).join('\n')}`
+      : '',
+    problem,
+    options,
+    criteria,
+    context: contextText,
+    debate: debate
+      ? `\nDEBATE TRANSCRIPT:\n${formatTranscript(debate.turns)}\n\nYou are the judge of this debate. Weigh the advocates' arguments against the context, and write "detailed_reasoning" as your verdict explaining which case won and why.\n`
+      : '',
+  };
+  const schema = decisionSchemaFor({ options, criteria, sourceKeys });
+
+  // Partial fields are forwarded as they arrive; the final object is
+  // validated against the schema (with repair retries) before it is returned.
+  let lastPartial = '';
+  let output: DecisionOutput = await generateStructured({
+    model,
+    prompt: await reasoningPrompt(prompt.version.template, promptInput),
+    schema,
+    onPartial: (value) => {
+      const partial = pickPartial(value);
+      const serialized = JSON.stringify(partial);
+      if (partial && serialized !== lastPartial) {
+        lastPartial = serialized;
+        onEvent({ type: 'partial', result: partial });
+      }
+    },
+  });
+
+  // --- STEP 6: SELF-CONSISTENCY (optional) ---
+  let consistency: Consistency | undefined;
+  // The model whose answer is kept; it also defends that answer in the challenge
+  let answeredWith = model;
+  if (samplers.length > 0) {
+    const answers = [{ output, model }];
+    let failed = 0;
+
+    for (let i = 0; i < samplers.length; i++) {
+      const sampler = samplers[i];
+      onEvent({ type: 'stage', stage: 'sampling', message: `Sampling the decision again (${i + 2} of ${samplers.length + 1})` });
+      try {
+        const sample = await generateStructured({
+          model: sampler.model,
+          prompt: await reasoningPrompt(prompt.version.template, { ...promptInput, persona: sampler.persona, options: rotate(options, sampler.rotation) }),
+          schema,
+        });
+        answers.push({ output: sample, model: sampler.model });
+      } catch (err: any) {
+        // A failed sample costs a vote, not the request
+        console.error(`⚠️ Sample ${i + 2} failed:`, err.message);
+        failed++;
+      }
+    }
+
+    const models = answers
+      .map((answer) => answer.model.info)
+      .filter((info, index, all) => all.findIndex((other) => other.provider === info.provider && other.model === info.model) === index);
+    const tally = tallyVotes(answers.map((answer) => answer.output.recommendation), options, models, failed);
+    // The reasoning and scores shown are those of the first sample that voted for the winner
+    const chosen = answers.find((answer) => answer.output.recommendation === tally.winner)!;
+    output = chosen.output;
+    answeredWith = chosen.model;
+    consistency = tally;
+  }
+  const answeredBy = answeredWith.info;
+
+  // --- STEP 7: EVIDENCE ASSESSMENT ---
+  const { evidence_check: evidenceCheck, ...answer } = output;
+  const assessment = assessEvidence(documents, options, evidenceCheck);
+  const late = abstainAfterReasoning(assessment);
+  if (late) {
+    console.log(`⚠️ Abstaining: ${late.code}`);
+    return { ...abstentionResult(late, assessment, sources, answeredBy, prompt.ref), template: templateInfo };
+  }
+
+  // Evidence strength, scaled by how many samples agree with the pick
+  const confidenceIn = (pick: string) => {
+    const agreement = consistency ? consistency.votes.find((entry) => entry.option === pick)?.share ?? 0 : 1;
+    return Math.round(assessment.score * agreement * 100) / 100;
+  };
+
+  const result: DecisionResult = {
+    ...answer,
+    criteria,
+    sources: markCited(sources, output.detailed_reasoning),
+    model: answeredBy,
+    prompt: prompt.ref,
+    template: templateInfo,
+    assessment,
+    confidence: confidenceIn(output.recommendation),
+  };
+  if (debate) result.debate = debate;
+  if (consistency) result.consistency = consistency;
+
+  // --- STEP 8: CHALLENGE (optional) ---
+  if (critic) {
+    console.log(`😈 Challenging with ${critic.info.provider} (${critic.info.model})...`);
+    onEvent({ type: 'partial', result: { recommendation: output.recommendation, short_reason: output.short_reason, scores: output.scores, evidence: output.evidence } });
+    onEvent({ type: 'stage', stage: 'challenging', message: `A devil's advocate is arguing against "${output.recommendation}"` });
+
+    const outcome = await runChallenge({
+      model: answeredWith,
+      problem,
+      options,
+      context: contextText,
+      sourceKeys,
+      recommendation: output.recommendation,
+      reasoning: output.detailed_reasoning,
+    }, critic);
+
+    result.recommendation = outcome.recommendation;
+    result.short_reason = outcome.short_reason;
+    result.challenge = outcome.challenge;
+    if (outcome.challenge.changed) {
+      // The revision is the reasoning for the new pick; the scores and
+      // evidence describe every option and stand as they are
+      result.detailed_reasoning = outcome.challenge.rebuttal;
+      result.sources = markCited(sources, outcome.challenge.rebuttal);
+      result.confidence = confidenceIn(outcome.recommendation);
+      result.ranking = promote(result.ranking, outcome.recommendation, outcome.challenge);
+    }
+  }
+
+  // --- STEP 9: PRE-MORTEM (premortem mode) ---
+  if (input.mode === 'premortem') {
+    console.log(`🪦 Pre-mortem for "${result.recommendation}"...`);
+    onEvent({ type: 'partial', result: { recommendation: result.recommendation, short_reason: result.short_reason } });
+    onEvent({ type: 'stage', stage: 'premortem', message: `Imagining "${result.recommendation}" has failed a year from now` });
+    result.premortem = await runPremortem({ problem, options, context: contextText, sourceKeys, recommendation: result.recommendation }, model);
+  }
+
+  // --- STEP 10: OPTION EXPANSION (optional) ---
+  if (input.expandOptions) {
+    console.log('💡 Looking for options the user missed...');
+    onEvent({ type: 'partial', result: { recommendation: result.recommendation, short_reason: result.short_reason } });
+    onEvent({ type: 'stage', stage: 'expanding', message: 'Looking in the library for options you may have missed' });
+    try {
+      result.suggestions = await suggestOptions({ problem, options, context: contextText, sourceKeys }, model);
+    } catch (err: any) {
+      // Suggestions are extra; the analysis of the user's own options stands without them
+      console.error('⚠️ Option expansion failed, skipping:', err.message);
+    }
+  }
+
+  if (input.mode === 'mcda') {
+    // The weighted ranking is computed here, never by the model
+    result.weighted = computeWeightedAnalysis(output.scores, input.criteria, result.recommendation);
+  }
+
+  return result;
+}
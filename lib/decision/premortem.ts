@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import type { ChatModel } from '@/lib/llm/types';
+import { checkCitations, sourceKeyOf } from './schema';
+import { formatInstructions, generateStructured } from './structured';
+
+// --- PRE-MORTEM ---
+// Once an option is chosen, imagine it is a year later and the decision has
+// failed: how did it fail, what would have warned us, and what would have
+// prevented it. Every item is tied to a library passage.
+
+const HORIZON = '12 months';
+
+const sourceKeySchema = z.string().min(1).describe('The citation key of the library passage this is grounded in, e.g. "S3".');
+
+const signalSchema = z.object({
+  signal: z.string().min(1).describe('An early, observable sign that this failure is under way.'),
+  source: sourceKeySchema,
+});
+
+const mitigationSchema = z.object({
+  action: z.string().min(1).describe('A concrete step that makes this failure less likely or less costly.'),
+  source: sourceKeySchema,
+});
+
+const failureSchema = z.object({
+  title: z.string().min(1).describe('A short name for this failure, e.g. "Team exodus".'),
+  narrative: z
+    .string()
+    .min(1)
+    .describe('How the decision failed, told as a short story looking back (60-120 words). Cite the library passages you rely on with their keys, e.g. [S1].'),
+  likelihood: z.enum(['high', 'medium', 'low']).describe('How likely this failure is.'),
+  warning_signals: z
+    .array(signalSchema)
+    .min(1)
+    .describe('2-3 early warning signals.'),
+  mitigations: z
+    .array(mitigationSchema)
+    .min(1)
+    .describe('2-3 mitigations.'),
+});
+
+const premortemOutputSchema = z.object({
+  failures: z.array(failureSchema).min(1).describe('The 3 most likely ways this decision fails, most likely first.'),
+});
+
+export interface GroundedPoint {
+  text: string;
+  source: string;
+}
+
+export interface FailureMode {
+  title: string;
+  narrative: string;
+  likelihood: 'high' | 'medium' | 'low';
+  warning_signals: GroundedPoint[];
+  mitigations: GroundedPoint[];
+}
+
+export interface Premortem {
+  option: string;
+  horizon: string;
+  failures: FailureMode[];
+}
+
+interface PremortemInput {
+  problem: string;
+  options: string[];
+  context: string;
+  sourceKeys: string[];
+  recommendation: string;
+}
+
+export async function runPremortem({ problem, options, context, sourceKeys, recommendation }: PremortemInput, model: ChatModel): Promise<Premortem> {
+  const { failures } = await generateStructured({
+    model,
+    prompt: `You are running a pre-mortem. The user chose "${recommendation}". Imagine it is ${HORIZON} later and the decision has clearly failed. Explain the most likely ways it failed, the early warning signals, and the mitigations, using only frameworks and lessons found in the library context.
+
+User Problem: ${problem}
+User Options:
+${options.map((option, idx) => `${idx + 1}. ${option}`).join('\n')}
+
+CONTEXT FROM LIBRARY (STRICT):
+${context}
+
+${formatInstructions(premortemOutputSchema)}`,
+    schema: premortemOutputSchema.superRefine((value, ctx) => {
+      value.failures.forEach((failure, index) => {
+        checkCitations(failure.narrative, sourceKeys, ctx, ['failures', index, 'narrative']);
+        (['warning_signals', 'mitigations'] as const).forEach((list) => {
+          failure[list].forEach((point, pointIndex) => {
+            if (!sourceKeys.includes(sourceKeyOf(point.source))) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['failures', index, list, pointIndex, 'source'],
+                message: `Unknown citation key "${point.source}"; only ${sourceKeys.join(', ')} exist`,
+              });
+            }
+          });
+        });
+      });
+    }),
+  });
+
+  return {
+    option: recommendation,
+    horizon: HORIZON,
+    failures: failures.map((failure) => ({
+      title: failure.title,
+      narrative: failure.narrative,
+      likelihood: failure.likelihood,
+      warning_signals: failure.warning_signals.map((point) => ({ text: point.signal, source: sourceKeyOf(point.source) })),
+      mitigations: failure.mitigations.map((point) => ({ text: point.action, source: sourceKeyOf(point.source) })),
+    })),
+  };
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import { DEFAULT_CRITERIA, type Criterion } from './criteria';
+import { citedKeys } from './sources';
+
+export const criterionScoreSchema = z.object({
+  criterion: z.string().min(1).describe('The criterion id.'),
+  score: z.number().min(1).max(10).describe('1-10, where 10 is best for the user on this criterion.'),
+  justification: z.string().min(1).describe('One line explaining the score, grounded in the context.'),
+});
+
+export const optionScoresSchema = z.object({
+  option: z.string().min(1).describe('The option, copied verbatim from the list of user options.'),
+  scores: z.array(criterionScoreSchema).describe('One entry per criterion.'),
+});
+
+export const evidencePointSchema = z.object({
+  source: z.string().min(1).describe('The citation key of the library passage, e.g. "S3".'),
+  point: z.string().min(1).describe('What the passage implies for this option, in one sentence.'),
+});
+
+export const optionEvidenceSchema = z.object({
+  option: z.string().min(1).describe('The option, copied verbatim from the list of user options.'),
+  supporting: z.array(evidencePointSchema).describe('Passages that argue for this option. Empty if none do.'),
+  opposing: z.array(evidencePointSchema).describe('Passages that argue against this option. Empty if none do.'),
+});
+
+export const evidenceCheckSchema = z.object({
+  sufficiency: z
+    .enum(['sufficient', 'partial', 'insufficient'])
+    .describe('Whether the context holds enough relevant material to decide between the options.'),
+  gaps: z.string().describe('What the context is missing to decide with confidence. Empty if nothing.'),
+});
+
+export const rankedOptionSchema = z.object({
+  option: z.string().min(1).describe('The option, copied verbatim from the list of user options.'),
+  why_not: z
+    .string()
+    .describe('For every option except the recommendation: the specific reasons it lost to the options ranked above it (2-4 sentences, citing passages where they apply). Empty for the recommendation.'),
+  would_win_if: z
+    .string()
+    .describe('For every option except the recommendation: the concrete condition under which it would have been the best choice. Empty for the recommendation.'),
+});
+
+// --- DECISION OUTPUT CONTRACT ---
+// The model must return exactly this shape. Descriptions double as the
+// format instructions sent in the prompt, so keep them written for the model.
+export const decisionOutputSchema = z.object({
+  recommendation: z
+    .string()
+    .min(1)
+    .describe('The chosen option, copied verbatim from the list of user options.'),
+  short_reason: z
+    .string()
+    .min(1)
+    .describe('Why this option wins, in 2 sentences max.'),
+  detailed_reasoning: z
+    .string()
+    .min(1)
+    .describe('A comprehensive analysis (min 150 words) in plain paragraphs separated by newlines, without Markdown. Cite the library passages you rely on with their keys, e.g. [S1] or [S2][S4].'),
+  scores: z
+    .array(optionScoresSchema)
+    .describe('One entry per user option, scoring it against every criterion.'),
+  evidence: z
+    .array(optionEvidenceSchema)
+    .describe('One entry per user option, listing the library passages for and against it.'),
+  ranking: z
+    .array(rankedOptionSchema)
+    .describe('Every user option exactly once, best first. The first entry is the recommendation.'),
+  evidence_check: evidenceCheckSchema.describe('Your honest assessment of the context, not of the options.'),
+});
+
+export type CriterionScore = z.infer<typeof criterionScoreSchema>;
+export type OptionScores = z.infer<typeof optionScoresSchema>;
+export type EvidencePoint = z.infer<typeof evidencePointSchema>;
+export type OptionEvidence = z.infer<typeof optionEvidenceSchema>;
+export type EvidenceCheck = z.infer<typeof evidenceCheckSchema>;
+export type RankedOption = z.infer<typeof rankedOptionSchema>;
+export type DecisionOutput = z.infer<typeof decisionOutputSchema>;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Returns the user's option that `text` refers to, tolerating whitespace,
+// casing and a leading "1." style index the model sometimes copies over.
+export function matchOption(text: string, options: string[]): string | null {
+  const target = normalize(text.replace(/^\s*\d+[.)]\s*/, ''));
+  return options.find((option) => normalize(option) === target) || null;
+}
+
+// The model writes keys as "S3" or "[S3]"
+export const sourceKeyOf = (text: string) => text.trim().replace(/^\[|\]$/g, '');
+
+// Requires `text` to cite at least one retrieved chunk and nothing else.
+// No-op when nothing was retrieved.
+export function checkCitations(text: string, sourceKeys: string[], ctx: z.RefinementCtx, path: (string | number)[]) {
+  if (sourceKeys.length === 0) return;
+
+  const cited = citedKeys(text);
+  const unknown = cited.filter((key) => !sourceKeys.includes(key));
+  if (cited.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path,
+      message: `Must cite at least one library passage using its key, e.g. [${sourceKeys[0]}]`,
+    });
+  } else if (unknown.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path,
+      message: `Cites unknown keys ${unknown.map((key) => `[${key}]`).join(', ')}; only ${sourceKeys.map((key) => `[${key}]`).join(', ')} exist`,
+    });
+  }
+}
+
+interface DecisionContract {
+  options: string[];
+  criteria?: Criterion[];
+  // Citation keys of the retrieved chunks the reasoning may cite
+  sourceKeys?: string[];
+}
+
+// Narrows the contract for one request: the recommendation has to be one of
+// the submitted options, every option has to be scored on every criterion,
+// get an evidence entry and be ranked exactly once (recommendation first),
+// citations must point at retrieved chunks, and option names are snapped
+// back to the user's exact text.
+export function decisionSchemaFor({ options, criteria = DEFAULT_CRITERIA, sourceKeys = [] }: DecisionContract) {
+  return decisionOutputSchema
+    .superRefine((value, ctx) => {
+      const optionList = options.map((o) => JSON.stringify(o)).join(', ');
+      if (!matchOption(value.recommendation, options)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['recommendation'],
+          message: `Must be one of the user options, copied exactly: ${optionList}`,
+        });
+      }
+
+      checkCitations(value.detailed_reasoning, sourceKeys, ctx, ['detailed_reasoning']);
+
+      options.forEach((option) => {
+        const index = value.scores.findIndex((entry) => matchOption(entry.option, options) === option);
+        if (index === -1) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scores'], message: `Missing scores for option ${JSON.stringify(option)}` });
+          return;
+        }
+        criteria.forEach((criterion) => {
+          if (!value.scores[index].scores.some((score) => score.criterion === criterion.id)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['scores', index, 'scores'],
+              message: `Missing a score for criterion "${criterion.id}"`,
+            });
+          }
+        });
+
+        const evidenceIndex = value.evidence.findIndex((entry) => matchOption(entry.option, options) === option);
+        if (evidenceIndex === -1) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['evidence'], message: `Missing evidence for option ${JSON.stringify(option)}` });
+        }
+
+        const ranked = value.ranking.filter((entry) => matchOption(entry.option, options) === option);
+        if (ranked.length !== 1) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ranking'], message: `Must rank option ${JSON.stringify(option)} exactly once` });
+        } else if (option !== matchOption(value.recommendation, options) && !ranked[0].why_not.trim()) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['ranking', value.ranking.indexOf(ranked[0]), 'why_not'],
+            message: `Explain why ${JSON.stringify(option)} was not chosen`,
+          });
+        }
+      });
+
+      if (value.ranking.length > 0 && matchOption(value.ranking[0].option, options) !== matchOption(value.recommendation, options)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ranking', 0], message: 'The first ranked option must be the recommendation' });
+      }
+
+      if (sourceKeys.length > 0) {
+        value.evidence.forEach((entry, index) => {
+          (['supporting', 'opposing'] as const).forEach((side) => {
+            entry[side].forEach((point, pointIndex) => {
+              if (!sourceKeys.includes(sourceKeyOf(point.source))) {
+                ctx.addIssue({
+                  code: z.ZodIssueCode.custom,
+                  path: ['evidence', index, side, pointIndex, 'source'],
+                  message: `Unknown citation key "${point.source}"; only ${sourceKeys.join(', ')} exist`,
+                });
+              }
+            });
+          });
+        });
+      }
+    })
+    .transform((value) => ({
+      ...value,
+      recommendation: matchOption(value.recommendation, options) || value.recommendation,
+      // Same order as the user's options and criteria, unknown entries dropped
+      scores: options.map((option) => {
+        const entry = value.scores.find((candidate) => matchOption(candidate.option, options) === option)!;
+        return {
+          option,
+          scores: criteria.map((criterion) => entry.scores.find((score) => score.criterion === criterion.id)!),
+        };
+      }),
+      evidence: options.map((option) => {
+        const entry = value.evidence.find((candidate) => matchOption(candidate.option, options) === option)!;
+        const keyed = (points: EvidencePoint[]) => points.map((point) => ({ ...point, source: sourceKeyOf(point.source) }));
+        return { option, supporting: keyed(entry.supporting), opposing: keyed(entry.opposing) };
+      }),
+      // Unknown entries dropped; the winner has nothing to explain
+      ranking: value.ranking
+        .filter((entry) => matchOption(entry.option, options))
+        .map((entry, index) => ({
+          option: matchOption(entry.option, options)!,
+          why_not: index === 0 ? '' : entry.why_not,
+          would_win_if: index === 0 ? '' : entry.would_win_if,
+        })),
+    }));
+}
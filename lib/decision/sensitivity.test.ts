@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Criterion } from './criteria';
+import type { OptionScores } from './schema';
+import { adjustScores, findTippingPoints, rescore, type Assumption } from './sensitivity';
+
+const CRITERIA: Criterion[] = [
+  { id: 'cost', label: 'Cost', description: 'Cost' },
+  { id: 'risk', label: 'Risk', description: 'Risk' },
+];
+
+const SCORES: OptionScores[] = [
+  { option: 'A', scores: [{ criterion: 'cost', score: 8, justification: '' }, { criterion: 'risk', score: 3, justification: '' }] },
+  { option: 'B', scores: [{ criterion: 'cost', score: 4, justification: '' }, { criterion: 'risk', score: 7, justification: '' }] },
+];
+
+const DELAY: Assumption = {
+  id: 'delay',
+  label: 'Months of delay',
+  unit: 'months',
+  baseline: 2,
+  min: 0,
+  max: 12,
+  impacts: [{ option: 'A', criterion: 'cost', at_min: 1, at_max: -6 }],
+};
+
+// A leads below 30, B from 30 to 70, C above 70
+const winnerAt = (value: number) => (value < 30 ? 'A' : value <= 70 ? 'B' : 'C');
+
+describe('findTippingPoints', () => {
+  it('finds where the recommended option stops leading on either side', () => {
+    assert.deepEqual(findTippingPoints(winnerAt, 'B', 50, 0, 100), {
+      below: { value: 29, winner: 'A' },
+      above: { value: 71, winner: 'C' },
+    });
+  });
+
+  it('finds where a trailing recommendation takes the lead, not where the leader changes', () => {
+    assert.deepEqual(findTippingPoints(winnerAt, 'A', 50, 0, 100), { below: { value: 29, winner: 'A' }, above: null });
+  });
+
+  it('includes the ends of the range', () => {
+    const flipsAtEnds = (value: number) => (value === 0 || value === 100 ? 'B' : 'A');
+    assert.deepEqual(findTippingPoints(flipsAtEnds, 'A', 50, 0, 100), {
+      below: { value: 0, winner: 'B' },
+      above: { value: 100, winner: 'B' },
+    });
+  });
+
+  it('reports nothing when the lead never changes, or when there is no leader', () => {
+    assert.deepEqual(findTippingPoints(() => 'A', 'A', 50, 0, 100), { below: null, above: null });
+    assert.deepEqual(findTippingPoints(() => null, 'A', 50, 0, 100), { below: null, above: null });
+  });
+});
+
+describe('rescore', () => {
+  it('re-ranks the options under new weights', () => {
+    assert.equal(rescore(SCORES, CRITERIA, { cost: 80, risk: 20 })?.winner, 'A');
+    assert.equal(rescore(SCORES, CRITERIA, { cost: 20, risk: 80 })?.winner, 'B');
+  });
+
+  it('has no ranking when every weight is zero', () => {
+    assert.equal(rescore(SCORES, CRITERIA, { cost: 0, risk: 0 }), null);
+  });
+
+  it('applies the assumptions before ranking', () => {
+    assert.equal(rescore(SCORES, CRITERIA, { cost: 50, risk: 50 }, [DELAY], { delay: 12 })?.winner, 'B');
+  });
+});
+
+describe('adjustScores', () => {
+  const costOfA = (value: number) => adjustScores(SCORES, [DELAY], { delay: value })[0].scores[0].score;
+
+  it('leaves the scores alone at the baseline', () => {
+    assert.equal(costOfA(DELAY.baseline), 8);
+  });
+
+  it('moves a score linearly towards the impact at either end', () => {
+    assert.equal(costOfA(7), 5);
+    assert.equal(costOfA(1), 8.5);
+  });
+
+  it('keeps scores on the 1-10 scale', () => {
+    const steep: Assumption = { ...DELAY, impacts: [{ option: 'A', criterion: 'cost', at_min: 5, at_max: -20 }] };
+    assert.equal(adjustScores(SCORES, [steep], { delay: 12 })[0].scores[0].score, 1);
+    assert.equal(adjustScores(SCORES, [steep], { delay: 0 })[0].scores[0].score, 10);
+  });
+});
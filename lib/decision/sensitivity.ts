@@ -0,0 +1,109 @@
+import type { Criterion, WeightedCriterion } from './criteria';
+import { computeWeightedAnalysis, type WeightedAnalysis } from './mcda';
+import type { OptionScores } from './schema';
+
+// --- SENSITIVITY ANALYSIS ---
+// How fragile is the recommendation? Criterion weights and the key assumptions
+// behind the scores are varied and the options re-ranked locally from the
+// model's scores, so sliders never wait on the model. Shared with the page, so
+// keep this file free of server-only imports.
+
+// Steps a slider range is scanned in when looking for tipping points
+const SCAN_STEPS = 100;
+
+// How an assumption moves one option's score on one criterion. The change is
+// zero at the baseline value and grows linearly to `at_min` / `at_max`.
+export interface AssumptionImpact {
+  option: string;
+  criterion: string;
+  at_min: number;
+  at_max: number;
+}
+
+export interface Assumption {
+  id: string;
+  // e.g. "How long the sales dip lasts"
+  label: string;
+  unit: string;
+  // The value the scores assume
+  baseline: number;
+  min: number;
+  max: number;
+  impacts: AssumptionImpact[];
+}
+
+// Where the recommended option stops leading (or, when it is already behind,
+// starts leading again) as one input is moved away from its current value
+export interface TippingPoint {
+  value: number;
+  // The option that leads past the tipping point
+  winner: string;
+}
+
+const clampScore = (score: number) => Math.min(Math.max(score, 1), 10);
+
+function shift(impact: AssumptionImpact, assumption: Assumption, value: number): number {
+  if (value >= assumption.baseline) {
+    const span = assumption.max - assumption.baseline;
+    return span > 0 ? impact.at_max * ((value - assumption.baseline) / span) : 0;
+  }
+  const span = assumption.baseline - assumption.min;
+  return span > 0 ? impact.at_min * ((assumption.baseline - value) / span) : 0;
+}
+
+// The model's scores with every assumption set to `values[assumption.id]`
+export function adjustScores(scores: OptionScores[], assumptions: Assumption[], values: Record<string, number>): OptionScores[] {
+  return scores.map((entry) => ({
+    option: entry.option,
+    scores: entry.scores.map((score) => {
+      let adjusted = score.score;
+      assumptions.forEach((assumption) => {
+        const value = values[assumption.id] ?? assumption.baseline;
+        assumption.impacts
+          .filter((impact) => impact.option === entry.option && impact.criterion === score.criterion)
+          .forEach((impact) => {
+            adjusted += shift(impact, assumption, value);
+          });
+      });
+      return { ...score, score: Math.round(clampScore(adjusted) * 10) / 10 };
+    }),
+  }));
+}
+
+// Ranks the options under the given weights (criterion id -> weight) and assumption values
+export function rescore(
+  scores: OptionScores[],
+  criteria: Criterion[],
+  weights: Record<string, number>,
+  assumptions: Assumption[] = [],
+  values: Record<string, number> = {}
+): WeightedAnalysis | null {
+  const weighted: WeightedCriterion[] = criteria.map((criterion) => ({ ...criterion, weight: weights[criterion.id] ?? 0 }));
+  if (!weighted.some((criterion) => criterion.weight > 0)) return null;
+  return computeWeightedAnalysis(adjustScores(scores, assumptions, values), weighted, '');
+}
+
+// The nearest values below and above `current` where `option` stops or starts
+// leading, compared with whether it leads at `current`, scanning [min, max]
+export function findTippingPoints(
+  winnerAt: (value: number) => string | null,
+  option: string,
+  current: number,
+  min: number,
+  max: number
+): { below: TippingPoint | null; above: TippingPoint | null } {
+  const baseline = winnerAt(current);
+  const step = (max - min) / SCAN_STEPS;
+  if (!baseline || step <= 0) return { below: null, above: null };
+  const leadsNow = baseline === option;
+
+  const scan = (direction: 1 | -1): TippingPoint | null => {
+    for (let value = current + direction * step; direction > 0 ? value <= max + 1e-9 : value >= min - 1e-9; value += direction * step) {
+      const winner = winnerAt(value);
+      if (winner && (winner === option) !== leadsNow) return { value: Math.round(value * 100) / 100, winner };
+    }
+    return null;
+  };
+
+  return { below: scan(-1), above: scan(1) };
+}
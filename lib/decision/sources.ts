@@ -0,0 +1,78 @@
+// --- CITATIONS ---
+// Every retrieved chunk gets a citation key ([S1], [S2], ...) that the model
+// uses in its reasoning and the UI turns into footnotes.
+
+// Which retrieval channel surfaced a chunk: vector similarity, full-text
+// keyword match, or both (hybrid search only)
+export type RetrievalChannel = 'vector' | 'keyword' | 'both';
+
+export interface Source {
+  key: string;
+  id: number;
+  book: string;
+  similarity: number;
+  channel: RetrievalChannel;
+  // The user options whose retrieval queries surfaced this chunk
+  options: string[];
+  excerpt: string;
+  content: string;
+  cited: boolean;
+}
+
+// A chunk returned by the library search (see lib/retrieval/search.ts)
+export interface MatchedDocument {
+  id: number;
+  content: string;
+  metadata: Record<string, any> | null;
+  similarity: number;
+  channel: RetrievalChannel;
+  // Set by multi-query retrieval (see lib/retrieval/queries.ts)
+  options?: string[];
+  // Reciprocal rank fusion score, higher is better: of the keyword and vector
+  // rankings from hybrid search, then of every query's ranking in multi-query
+  // retrieval. Absent on single vector-search results.
+  rrfScore?: number;
+}
+
+const EXCERPT_LENGTH = 280;
+
+export const CITATION_PATTERN = /\[(S\d+)\]/g;
+
+function excerptOf(content: string): string {
+  const flat = content.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH).trimEnd()}…` : flat;
+}
+
+// `offset` continues the numbering after passages a conversation already has
+export function toSources(documents: MatchedDocument[], offset = 0): Source[] {
+  return documents.map((doc, index) => ({
+    key: `S${offset + index + 1}`,
+    id: doc.id,
+    book: doc.metadata?.source || 'Unknown source',
+    similarity: doc.similarity,
+    channel: doc.channel,
+    options: doc.options || [],
+    excerpt: excerptOf(doc.content),
+    content: doc.content,
+    cited: false,
+  }));
+}
+
+function labelOf(source: Source): string {
+  const retrievedFor = source.options.length > 0 ? `; retrieved for ${source.options.map((option) => `"${option}"`).join(', ')}` : '';
+  return `[${source.key}] (from "${source.book}"${retrievedFor})`;
+}
+
+// Context block for the prompt, one labelled chunk per source
+export function formatContext(sources: Source[]): string {
+  return sources.map((source) => `${labelOf(source)}\n${source.content}`).join('\n---\n');
+}
+
+export function citedKeys(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(CITATION_PATTERN), (match) => match[1])));
+}
+
+export function markCited(sources: Source[], text: string): Source[] {
+  const keys = citedKeys(text);
+  return sources.map((source) => ({ ...source, cited: keys.includes(source.key) }));
+}
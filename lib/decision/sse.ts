@@ -0,0 +1,52 @@
+import type { DecisionEvent } from './types';
+
+// --- Server-Sent Events framing for the streaming mode of /api/decide ---
+// Every event is a single `data:` line holding the JSON-encoded DecisionEvent
+// (or FollowUpEvent, for /api/followup).
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+export function encodeEvent<E = DecisionEvent>(event: E): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+export function wantsEventStream(req: Request, body: { stream?: boolean }): boolean {
+  return body.stream === true || (req.headers.get('accept') || '').includes('text/event-stream');
+}
+
+// Reads an SSE response body and hands every decoded event to `onEvent`.
+export async function readEventStream<E = DecisionEvent>(response: Response, onEvent: (event: E) => void): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream.');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (frame: string) => {
+    const data = frame
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (data) onEvent(JSON.parse(data));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) flush(buffer);
+}
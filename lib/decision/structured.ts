@@ -0,0 +1,72 @@
+import { AIMessage, HumanMessage, type BaseMessage } from '@langchain/core/messages';
+import { parsePartialJson } from 'ai';
+import type { ZodError, ZodType, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ChatModel } from '@/lib/llm/types';
+import { DecisionError } from './errors';
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+interface StructuredCall<T> {
+  model: ChatModel;
+  prompt: string;
+  schema: ZodType<T, any, any>;
+  maxRepairs?: number;
+  // Receives the partially parsed object while the model is still writing.
+  onPartial?: (partial: unknown) => void;
+}
+
+// Drops Markdown fences and anything the model wrote around the JSON object.
+function extractJSON(text: string): string {
+  const clean = text.replace(/```(?:json)?/g, '');
+  const start = clean.indexOf('{');
+  const end = clean.lastIndexOf('}');
+  return start !== -1 && end > start ? clean.slice(start, end + 1) : clean;
+}
+
+function describeIssues(error: ZodError): string {
+  return error.issues.map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n');
+}
+
+// Prompt block telling the model which JSON shape to answer with.
+export function formatInstructions(schema: ZodTypeAny): string {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' });
+  return `Respond with a single valid JSON object (no Markdown, no commentary) that conforms to this JSON schema:\n${JSON.stringify(jsonSchema)}`;
+}
+
+// Calls the model in JSON mode and validates the reply against `schema`.
+// Invalid replies are sent back together with the validation errors, up to
+// `maxRepairs` times, before giving up.
+export async function generateStructured<T>({ model, prompt, schema, maxRepairs = MAX_REPAIR_ATTEMPTS, onPartial }: StructuredCall<T>): Promise<T> {
+  const messages: BaseMessage[] = [new HumanMessage(prompt)];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    let raw = '';
+    for await (const text of model.streamText(messages, { json: true })) {
+      raw += text;
+
+      const start = raw.indexOf('{');
+      if (onPartial && start !== -1) {
+        const { value } = await parsePartialJson(raw.slice(start));
+        if (value !== undefined) onPartial(value);
+      }
+    }
+
+    let problems: string;
+    try {
+      const parsed = schema.safeParse(JSON.parse(extractJSON(raw)));
+      if (parsed.success) return parsed.data;
+      problems = describeIssues(parsed.error);
+    } catch (e: any) {
+      problems = `- (root): invalid JSON (${e.message})`;
+    }
+
+    console.warn(`⚠️ Structured output rejected (attempt ${attempt + 1}/${maxRepairs + 1}):\n${problems}`);
+    messages.push(
+      new AIMessage(raw),
+      new HumanMessage(`Your previous reply did not match the required JSON schema.\n\nValidation errors:\n${problems}\n\nReply again with the corrected JSON object only.`)
+    );
+  }
+
+  throw new DecisionError(`AI output failed schema validation after ${maxRepairs} repair attempts.`, 502);
+}
@@ -0,0 +1,120 @@
+import type { MatchedDocument } from './sources';
+import type { EvidenceCheck } from './schema';
+
+// --- EVIDENCE SUFFICIENCY ---
+// The library nearly always returns something, so "any chunks found" says
+// little. Evidence strength combines how similar the retrieved chunks are,
+// whether every option has material of its own, and the model's own verdict
+// on the context. Weak evidence lowers the stated confidence; missing
+// evidence makes the engine abstain with the reason.
+
+// Similarity scales differ between embedding models, so both are configurable
+const MIN_SIMILARITY = Number(process.env.EVIDENCE_MIN_SIMILARITY) || 0.3;
+const STRONG_SIMILARITY = Number(process.env.EVIDENCE_STRONG_SIMILARITY) || 0.6;
+const TOP_CHUNKS = 5;
+
+const MODEL_SCORES: Record<EvidenceCheck['sufficiency'], number> = {
+  sufficient: 1,
+  partial: 0.6,
+  insufficient: 0.2,
+};
+
+export type EvidenceLevel = 'strong' | 'moderate' | 'weak';
+
+export type AbstentionCode = 'no_documents' | 'weak_similarity' | 'model_insufficient';
+
+export interface EvidenceAssessment {
+  level: EvidenceLevel;
+  // 0-1, weighted from the signals below
+  score: number;
+  topSimilarity: number;
+  meanSimilarity: number;
+  // Options with no sufficiently similar chunk retrieved for them
+  uncoveredOptions: string[];
+  // The model's verdict on the context; absent before the model is asked
+  modelCheck?: EvidenceCheck;
+  // Human-readable weaknesses, empty when the evidence is strong
+  gaps: string[];
+}
+
+export interface Abstention {
+  code: AbstentionCode;
+  message: string;
+  // Exactly what was missing, one item per gap
+  details: string[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export function assessEvidence(documents: MatchedDocument[], options: string[], modelCheck?: EvidenceCheck): EvidenceAssessment {
+  const similarities = documents.map((document) => document.similarity).sort((a, b) => b - a);
+  const top = similarities.slice(0, TOP_CHUNKS);
+  const topSimilarity = top[0] ?? 0;
+  const meanSimilarity = top.length > 0 ? top.reduce((sum, value) => sum + value, 0) / top.length : 0;
+
+  const uncoveredOptions = options.filter((option) => !documents.some(
+    (document) => document.options?.includes(option) && document.similarity >= MIN_SIMILARITY
+  ));
+  const coverage = options.length > 0 ? 1 - uncoveredOptions.length / options.length : 1;
+  const similarityScore = clamp((meanSimilarity - MIN_SIMILARITY) / (STRONG_SIMILARITY - MIN_SIMILARITY));
+  // Before the model has answered, its share is left neutral
+  const modelScore = modelCheck ? MODEL_SCORES[modelCheck.sufficiency] : 0.6;
+
+  const score = round(0.4 * similarityScore + 0.3 * coverage + 0.3 * modelScore);
+
+  const gaps: string[] = [];
+  if (topSimilarity < MIN_SIMILARITY) {
+    gaps.push(`The best passage is only ${percent(topSimilarity)} similar to the problem (needs ${percent(MIN_SIMILARITY)}).`);
+  } else if (meanSimilarity < STRONG_SIMILARITY) {
+    gaps.push(`The top passages average ${percent(meanSimilarity)} similarity; strong evidence averages ${percent(STRONG_SIMILARITY)} or more.`);
+  }
+  uncoveredOptions.forEach((option) => gaps.push(`No relevant passage was found for "${option}".`));
+  if (modelCheck && modelCheck.sufficiency !== 'sufficient' && modelCheck.gaps.trim()) {
+    gaps.push(`The model notes: ${modelCheck.gaps.trim()}`);
+  }
+
+  return {
+    level: score >= 0.7 ? 'strong' : score >= 0.45 ? 'moderate' : 'weak',
+    score,
+    topSimilarity: round(topSimilarity),
+    meanSimilarity: round(meanSimilarity),
+    uncoveredOptions,
+    modelCheck,
+    gaps,
+  };
+}
+
+// Decided before the model is called: nothing, or nothing close enough, to reason over.
+// Keyword-only hits carry no similarity, so their presence counts as evidence.
+export function abstainBeforeReasoning(documents: MatchedDocument[], assessment: EvidenceAssessment): Abstention | null {
+  if (documents.length === 0) {
+    return {
+      code: 'no_documents',
+      message: 'No relevant frameworks found in your library.',
+      details: ['The search returned no passages for the problem or any of the options.'],
+    };
+  }
+  if (assessment.topSimilarity < MIN_SIMILARITY && !documents.some((document) => document.channel !== 'vector')) {
+    return {
+      code: 'weak_similarity',
+      message: 'Your library has nothing close enough to this problem to rely on.',
+      details: assessment.gaps,
+    };
+  }
+  return null;
+}
+
+// Decided after the model's self-assessment: it says the context is not
+// enough, and the retrieval signals don't contradict it.
+export function abstainAfterReasoning(assessment: EvidenceAssessment): Abstention | null {
+  if (assessment.modelCheck?.sufficiency === 'insufficient' && assessment.level === 'weak') {
+    return {
+      code: 'model_insufficient',
+      message: 'The retrieved passages are not enough to decide between these options.',
+      details: assessment.gaps,
+    };
+  }
+  return null;
+}
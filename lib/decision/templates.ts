@@ -0,0 +1,162 @@
+import { DEFAULT_CRITERIA, type Criterion } from './criteria';
+
+// --- DECISION TEMPLATES ---
+// Each template specialises the analysis for one kind of decision: who the
+// model should act as, what to look for, which criteria to score, how options
+// are usually framed, and which terms to search the library for. Shared with
+// the page (template picker), so keep this file free of server-only imports.
+
+export type TemplateId = 'general' | 'hiring' | 'investment' | 'product' | 'vendor' | 'career';
+
+export interface DecisionTemplate {
+  id: TemplateId;
+  label: string;
+  // Used by the classifier to recognise problems of this kind
+  description: string;
+  persona: string;
+  // Extra instructions added to the reasoning prompt
+  guidance: string[];
+  criteria: Criterion[];
+  // Starting points the UI offers for the options
+  optionScaffolds: string[];
+  // Extra library search terms for this kind of decision
+  retrievalHints: string[];
+}
+
+export const DECISION_TEMPLATES: DecisionTemplate[] = [
+  {
+    id: 'general',
+    label: 'General decision',
+    description: 'Any decision that does not fit a more specific template.',
+    persona: 'You are an expert decision consultant.',
+    guidance: [],
+    criteria: DEFAULT_CRITERIA,
+    optionScaffolds: [],
+    retrievalHints: [],
+  },
+  {
+    id: 'hiring',
+    label: 'Hiring & firing',
+    description: 'Hiring, firing, promoting, coaching or reassigning people.',
+    persona: 'You are an experienced people leader and organisational psychologist.',
+    guidance: [
+      'Weigh the effect on the rest of the team, not only on the individual.',
+      'Separate performance from behaviour, and say which one the decision is really about.',
+      'Consider fairness, precedent and any legal or documentation steps.',
+    ],
+    criteria: [
+      { id: 'team_impact', label: 'Team impact', description: 'Effect on team morale, trust and culture (10 = most positive).' },
+      { id: 'performance', label: 'Performance', description: 'Effect on results and output (10 = strongest results).' },
+      { id: 'fairness', label: 'Fairness', description: 'How fair and consistent the option is to everyone involved (10 = fairest).' },
+      { id: 'risk', label: 'Risk', description: 'Legal, reputational and attrition risk (10 = lowest risk).' },
+    ],
+    optionScaffolds: [
+      'Let [person] go, accepting [short-term cost]',
+      'Put [person] on a [n]-week improvement plan with [support] and clear consequences',
+      'Move [person] to [other role] where [strength] is useful without [problem]',
+    ],
+    retrievalHints: ['hiring', 'firing', 'performance management', 'team culture', 'feedback', 'incentives'],
+  },
+  {
+    id: 'investment',
+    label: 'Investment',
+    description: 'Putting money or capital into an asset, company, project or purchase.',
+    persona: 'You are a disciplined investor who thinks in probabilities and expected value.',
+    guidance: [
+      'Estimate the downside before the upside, and flag any risk of ruin.',
+      'Account for opportunity cost and the time the money is locked up.',
+      'Point out where the user might be anchored, overconfident or following the crowd.',
+    ],
+    criteria: [
+      { id: 'expected_return', label: 'Expected return', description: 'Probability-weighted upside (10 = best expected return).' },
+      { id: 'downside', label: 'Downside protection', description: 'How limited the worst case is (10 = smallest worst-case loss).' },
+      { id: 'liquidity', label: 'Liquidity', description: 'How easily the money can be got back out (10 = most liquid).' },
+      { id: 'conviction', label: 'Conviction', description: 'How well the thesis is supported by evidence (10 = strongest evidence).' },
+    ],
+    optionScaffolds: [
+      'Invest [amount] in [asset] now',
+      'Invest [smaller amount] now and the rest if [milestone] happens',
+      'Keep the money in [alternative] and revisit in [timeframe]',
+    ],
+    retrievalHints: ['risk', 'expected value', 'margin of safety', 'opportunity cost', 'probabilistic thinking'],
+  },
+  {
+    id: 'product',
+    label: 'Product prioritisation',
+    description: 'Choosing which product feature, project or initiative to build or do first.',
+    persona: 'You are a seasoned product leader.',
+    guidance: [
+      'Tie each option to the user or customer problem it solves.',
+      'Compare effort against impact, and call out dependencies and sequencing.',
+      'Prefer options that produce learning early when uncertainty is high.',
+    ],
+    criteria: [
+      { id: 'customer_impact', label: 'Customer impact', description: 'Value delivered to users or customers (10 = highest).' },
+      { id: 'effort', label: 'Effort', description: 'Time and people needed (10 = least effort).' },
+      { id: 'strategic_fit', label: 'Strategic fit', description: 'Alignment with the product strategy (10 = best fit).' },
+      { id: 'learning', label: 'Learning', description: 'How much it reduces uncertainty (10 = most learning).' },
+    ],
+    optionScaffolds: [
+      'Build [feature] first for [user segment]',
+      'Run a [small experiment] to validate [assumption] before building',
+      'Defer [feature] and focus on [existing problem]',
+    ],
+    retrievalHints: ['prioritisation', 'focus', 'trade-offs', 'opportunity cost', 'experimentation'],
+  },
+  {
+    id: 'vendor',
+    label: 'Vendor selection',
+    description: 'Choosing a supplier, agency, tool, platform or partner to buy from.',
+    persona: 'You are a pragmatic procurement and operations advisor.',
+    guidance: [
+      'Look at total cost over the life of the contract, not only the price.',
+      'Weigh lock-in and switching costs, and how easy it is to leave.',
+      'Check the vendor-specific risks: reliability, support and financial health.',
+    ],
+    criteria: [
+      { id: 'total_cost', label: 'Total cost', description: 'Cost of ownership over the contract (10 = cheapest).' },
+      { id: 'quality', label: 'Quality', description: 'Quality and reliability of what is delivered (10 = best).' },
+      { id: 'lock_in', label: 'Lock-in', description: 'How easy it is to switch away later (10 = easiest).' },
+      { id: 'vendor_risk', label: 'Vendor risk', description: 'Risk of the vendor failing to deliver (10 = lowest risk).' },
+    ],
+    optionScaffolds: [
+      'Sign with [vendor A] for [term] at [price]',
+      'Sign with [vendor B], trading [weakness] for [strength]',
+      'Build it in-house with [team] over [timeframe]',
+    ],
+    retrievalHints: ['negotiation', 'switching costs', 'second-order effects', 'incentives', 'trust'],
+  },
+  {
+    id: 'career',
+    label: 'Career move',
+    description: 'Personal career choices: taking a job, quitting, changing field, studying or starting something.',
+    persona: 'You are a thoughtful career coach.',
+    guidance: [
+      'Consider the user\'s long-term goals and values, not only the next role.',
+      'Look for regret minimisation and how reversible each move is.',
+      'Weigh skills and relationships gained alongside pay.',
+    ],
+    criteria: [
+      { id: 'growth', label: 'Growth', description: 'Skills, learning and future options gained (10 = most growth).' },
+      { id: 'financial', label: 'Financial', description: 'Effect on income and financial security (10 = best).' },
+      { id: 'fulfilment', label: 'Fulfilment', description: 'Fit with what the user finds meaningful (10 = most fulfilling).' },
+      { id: 'reversibility', label: 'Reversibility', description: 'How easily the move can be undone (10 = fully reversible).' },
+    ],
+    optionScaffolds: [
+      'Accept the offer from [company] as [role]',
+      'Stay at [current company] and ask for [change]',
+      'Take [time] to [study / build / explore] before deciding',
+    ],
+    retrievalHints: ['regret minimization', 'career capital', 'long-term thinking', 'optionality', 'values'],
+  },
+];
+
+export const TEMPLATE_IDS = DECISION_TEMPLATES.map((template) => template.id);
+
+export function isTemplateId(value: unknown): value is TemplateId {
+  return TEMPLATE_IDS.includes(value as TemplateId);
+}
+
+export function getTemplate(id: TemplateId): DecisionTemplate {
+  return DECISION_TEMPLATES.find((template) => template.id === id)!;
+}
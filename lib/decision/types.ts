@@ -0,0 +1,100 @@
+// Shared between the /api/decide route and the DecisionTool page, so keep this
+// file free of server-only imports.
+
+import type { ModelInfo, ProviderId } from '@/lib/llm/types';
+import type { Challenge } from './challenge';
+import type { Clarification } from './clarify';
+import type { Consistency } from './consistency';
+import type { Criterion, WeightedCriterion } from './criteria';
+import type { Debate } from './debate';
+import type { SuggestedOption } from './expand';
+import type { WeightedAnalysis } from './mcda';
+import type { Premortem } from './premortem';
+import type { DecisionOutput } from './schema';
+import type { Source } from './sources';
+import type { Abstention, EvidenceAssessment } from './sufficiency';
+import type { TemplateId } from './templates';
+
+// 'standard' scores against the built-in criteria; 'mcda' scores against the
+// user's weighted criteria and ranks the options by weighted total; 'debate'
+// has one advocate argue for each option before the model judges;
+// 'premortem' adds failure scenarios for the chosen option.
+export type DecisionMode = 'standard' | 'mcda' | 'debate' | 'premortem';
+
+export interface DecisionRequest {
+  problem: string;
+  options: string[];
+  mode: DecisionMode;
+  criteria: WeightedCriterion[];
+  // Classified from the problem when omitted
+  template?: TemplateId;
+  // Falls back to LLM_PROVIDER / LLM_MODEL when omitted
+  provider?: ProviderId;
+  model?: string;
+  // Run the devil's advocate pass after the recommendation
+  challenge?: boolean;
+  // Also suggest options the user didn't list
+  expandOptions?: boolean;
+  // How many times to sample the decision for self-consistency voting (1 = once)
+  samples?: number;
+  // Answers to the clarifying questions, folded into the problem
+  clarifications?: Clarification[];
+  // Pins a reasoning prompt version instead of PROMPT_VERSION / PROMPT_EXPERIMENT
+  promptVersion?: string;
+  stream?: boolean;
+}
+
+// The reasoning prompt version that produced a result
+export interface PromptRef {
+  id: string;
+  // SHA-256 of the prompt text
+  hash: string;
+  // The A/B experiment the request was bucketed in, if one is running
+  experiment: string | null;
+}
+
+// The recommendation of a result where the engine abstained
+export const UNABLE_TO_ANALYZE = 'Unable to analyze.';
+
+// The model's `evidence_check` is folded into `assessment`
+export interface DecisionResult extends Omit<DecisionOutput, 'evidence_check'> {
+  // The criteria the options were scored against, in column order
+  criteria: Criterion[];
+  // Retrieved chunks in citation-key order; `cited` marks the ones the reasoning uses
+  sources: Source[];
+  // Which model produced this result; null when no model was called
+  model: ModelInfo | null;
+  prompt: PromptRef;
+  // Identifies the stored run, for feedback; absent when it couldn't be stored
+  runId?: string;
+  // Identifies the stored decision in the history; absent when it couldn't be stored
+  decisionId?: string;
+  // The decision template the analysis used; `auto` when it was classified
+  template?: { id: TemplateId; label: string; auto: boolean };
+  // How well the library supports the answer
+  assessment?: EvidenceAssessment;
+  // 0-1: evidence strength, scaled by sample agreement when several samples were taken
+  confidence?: number;
+  // Only present when the engine declined to recommend, saying what was missing
+  abstention?: Abstention;
+  // Only present in 'mcda' mode
+  weighted?: WeightedAnalysis;
+  // Only present in 'debate' mode
+  debate?: Debate;
+  // Only present in 'premortem' mode
+  premortem?: Premortem;
+  // Only present when more than one sample was requested
+  consistency?: Consistency;
+  // Only present when the request asked for a challenge
+  challenge?: Challenge;
+  // Only present when the request asked to expand the options
+  suggestions?: SuggestedOption[];
+}
+
+export type DecisionStage = 'classifying' | 'embedding' | 'retrieving' | 'reranking' | 'debating' | 'reasoning' | 'sampling' | 'challenging' | 'premortem' | 'expanding';
+
+export type DecisionEvent =
+  | { type: 'stage'; stage: DecisionStage; message: string; count?: number }
+  | { type: 'partial'; result: Partial<DecisionResult> }
+  | { type: 'result'; result: DecisionResult }
+  | { type: 'error'; error: string; status: number };
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EmbeddingError, type EmbeddingSpec } from './models';
+
+const CHECK_TTL_MS = 60_000;
+
+const lastChecked = new Map<string, number>();
+
+// Fails fast unless the corpus has an embedding space for `spec` with the
+// same dimension and at least one chunk embedded in it. Vectors of different
+// models live in separate spaces, so they can never be compared.
+export async function assertEmbeddingSpace(client: SupabaseClient, spec: EmbeddingSpec): Promise<void> {
+  if (Date.now() - (lastChecked.get(spec.id) || 0) < CHECK_TTL_MS) return;
+
+  const { data: registered, error } = await client
+    .from('embedding_models')
+    .select('dimensions')
+    .eq('id', spec.id)
+    .maybeSingle();
+  if (error) throw new EmbeddingError(`Could not check the corpus embedding spaces: ${error.message}`);
+
+  if (!registered) {
+    throw new EmbeddingError(
+      `The corpus has no embedding space for "${spec.id}". Ingest or backfill it with this model first (npm run embed-corpus).`
+    );
+  }
+  if (registered.dimensions !== spec.dimensions) {
+    throw new EmbeddingError(
+      `Embedding model mismatch: the corpus stores "${spec.id}" vectors with ${registered.dimensions} dimensions, ` +
+      `but the model produces ${spec.dimensions}.`
+    );
+  }
+
+  const { count, error: countError } = await client
+    .from('document_embeddings')
+    .select('document_id', { count: 'exact', head: true })
+    .eq('model_id', spec.id);
+  if (countError) throw new EmbeddingError(`Could not check the corpus embedding spaces: ${countError.message}`);
+
+  if (!count) {
+    throw new EmbeddingError(
+      `No chunks are embedded with "${spec.id}" yet. Backfill the corpus (npm run embed-corpus) before switching EMBEDDING_MODEL.`
+    );
+  }
+
+  lastChecked.set(spec.id, Date.now());
+}
+
+// Creates the space (registry row + index) for a model before writing to it.
+// Raises if the model is already registered with another dimension.
+export async function registerEmbeddingSpace(client: SupabaseClient, spec: EmbeddingSpec): Promise<void> {
+  const { error } = await client.rpc('register_embedding_model', {
+    embedding_model: spec.id,
+    embedding_dimensions: spec.dimensions,
+  });
+  if (error) throw new EmbeddingError(`Could not register embedding model "${spec.id}": ${error.message}`);
+}
@@ -0,0 +1,44 @@
+import { Embeddings } from '@langchain/core/embeddings';
+
+// Feature-hashing embeddings: unigrams and bigrams are hashed (FNV-1a) into a
+// fixed number of signed buckets and L2-normalized. No key, no network and
+// fully deterministic, at the cost of purely lexical similarity.
+export class HashingEmbeddings extends Embeddings {
+  dimensions: number;
+
+  constructor(dimensions: number) {
+    super({});
+    this.dimensions = dimensions;
+  }
+
+  private hash(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = words.concat(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+
+    for (const feature of features) {
+      const hash = this.hash(feature);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
@@ -0,0 +1,38 @@
+// --- EMBEDDING MODEL REGISTRY ---
+// Every stored vector lives in the embedding space of the model that produced
+// it (see the document_embeddings table), so vectors from different models are
+// never compared with each other.
+
+export type EmbeddingProviderId = 'google' | 'huggingface' | 'local';
+
+export interface EmbeddingSpec {
+  id: string;
+  provider: EmbeddingProviderId;
+  model: string;
+  dimensions: number;
+}
+
+export const EMBEDDING_MODELS: EmbeddingSpec[] = [
+  { id: 'google:text-embedding-004', provider: 'google', model: 'text-embedding-004', dimensions: 768 },
+  { id: 'huggingface:all-MiniLM-L6-v2', provider: 'huggingface', model: 'sentence-transformers/all-MiniLM-L6-v2', dimensions: 384 },
+  // Keyless feature-hashing embeddings, computed in-process for offline use
+  { id: 'local:hashing-384', provider: 'local', model: 'hashing-384', dimensions: 384 },
+];
+
+export const DEFAULT_EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || 'google:text-embedding-004';
+
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+    Object.setPrototypeOf(this, EmbeddingError.prototype);
+  }
+}
+
+export function getEmbeddingSpec(id: string = DEFAULT_EMBEDDING_MODEL): EmbeddingSpec {
+  const spec = EMBEDDING_MODELS.find((candidate) => candidate.id === id);
+  if (!spec) {
+    throw new EmbeddingError(`Unknown embedding model "${id}". Use one of: ${EMBEDDING_MODELS.map((m) => m.id).join(', ')}.`);
+  }
+  return spec;
+}
@@ -0,0 +1,73 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
+import { HuggingFaceInferenceEmbeddings } from '@langchain/community/embeddings/hf';
+import { TaskType } from '@google/generative-ai';
+import { HashingEmbeddings } from './hashing';
+import { EmbeddingError, getEmbeddingSpec, type EmbeddingSpec } from './models';
+
+// 'document' when ingesting books, 'query' when embedding a user's problem
+export type EmbeddingPurpose = 'document' | 'query';
+
+interface EmbeddingClient {
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+function requireEnv(name: string, spec: EmbeddingSpec): string {
+  const value = process.env[name];
+  if (!value) throw new EmbeddingError(`Missing API Keys (${name}) for embedding model "${spec.id}".`);
+  return value;
+}
+
+function createClient(spec: EmbeddingSpec, purpose: EmbeddingPurpose): EmbeddingClient {
+  switch (spec.provider) {
+    case 'google':
+      return new GoogleGenerativeAIEmbeddings({
+        apiKey: requireEnv('GOOGLE_API_KEY', spec),
+        modelName: spec.model,
+        taskType: purpose === 'document' ? TaskType.RETRIEVAL_DOCUMENT : TaskType.RETRIEVAL_QUERY,
+      });
+    case 'huggingface':
+      return new HuggingFaceInferenceEmbeddings({
+        apiKey: requireEnv('HUGGINGFACEHUB_API_TOKEN', spec),
+        model: spec.model,
+      });
+    case 'local':
+      return new HashingEmbeddings(spec.dimensions);
+  }
+}
+
+// LangChain-compatible embeddings that know which model they are and refuse
+// to hand out a vector whose size doesn't match that model's dimension.
+export class GuardedEmbeddings extends Embeddings {
+  spec: EmbeddingSpec;
+  private client: EmbeddingClient;
+
+  constructor(spec: EmbeddingSpec, purpose: EmbeddingPurpose) {
+    super({});
+    this.spec = spec;
+    this.client = createClient(spec, purpose);
+  }
+
+  private check(vector: number[]): number[] {
+    if (vector.length !== this.spec.dimensions) {
+      throw new EmbeddingError(
+        `Embedding model "${this.spec.id}" returned ${vector.length} dimensions, expected ${this.spec.dimensions}.`
+      );
+    }
+    return vector;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors = await this.client.embedDocuments(texts);
+    return vectors.map((vector) => this.check(vector));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.check(await this.client.embedQuery(text));
+  }
+}
+
+export function createEmbeddings(purpose: EmbeddingPurpose, id?: string): GuardedEmbeddings {
+  return new GuardedEmbeddings(getEmbeddingSpec(id), purpose);
+}
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EmbeddingError } from './models';
+import type { GuardedEmbeddings } from './providers';
+
+export interface Chunk {
+  pageContent: string;
+  metadata: Record<string, any>;
+}
+
+const BATCH_SIZE = 100;
+
+// Stores precomputed vectors for existing chunks in the model's space
+export async function storeEmbeddings(client: SupabaseClient, embeddings: GuardedEmbeddings, documentIds: number[], vectors: number[][]) {
+  const { error } = await client.from('document_embeddings').insert(
+    documentIds.map((documentId, i) => ({ document_id: documentId, model_id: embeddings.spec.id, embedding: vectors[i] }))
+  );
+  if (error) throw new EmbeddingError(`Could not store "${embeddings.spec.id}" embeddings: ${error.message}`);
+}
+
+// Inserts chunks into `documents` and their vectors into the model's space.
+// Vectors are computed before anything is written, and a batch whose vectors
+// fail to store is rolled back so no chunk is left without an embedding.
+export async function storeChunks(client: SupabaseClient, embeddings: GuardedEmbeddings, chunks: Chunk[]): Promise<number> {
+  let stored = 0;
+
+  for (let start = 0; start < chunks.length; start += BATCH_SIZE) {
+    const batch = chunks.slice(start, start + BATCH_SIZE);
+    const vectors = await embeddings.embedDocuments(batch.map((chunk) => chunk.pageContent));
+
+    const { data, error } = await client
+      .from('documents')
+      .insert(batch.map((chunk) => ({ content: chunk.pageContent, metadata: chunk.metadata })))
+      .select('id');
+    if (error || !data) throw new EmbeddingError(`Could not store chunks: ${error?.message}`);
+
+    const documentIds = data.map((row: { id: number }) => row.id);
+    try {
+      await storeEmbeddings(client, embeddings, documentIds, vectors);
+    } catch (err) {
+      await client.from('documents').delete().in('id', documentIds);
+      throw err;
+    }
+    stored += batch.length;
+  }
+
+  return stored;
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import type { BaseMessage } from '@langchain/core/messages';
+import type { LLMProvider } from './types';
+
+// --- DETERMINISTIC FAKE PROVIDER ---
+// For tests and offline development. With FAKE_LLM_RESPONSES set (a JSON
+// array, or a path to a .json file holding one) the replies are replayed in
+// order, repeating the last one. Otherwise a reply is synthesized from the
+// JSON schema embedded in the prompt, filled in with the options, criteria
+// and citation keys the prompt lists. The same prompt always gives the same reply.
+
+const FAKE_RESPONSES = process.env.FAKE_LLM_RESPONSES;
+const CHUNK_SIZE = 24;
+
+interface PromptPools {
+  options: string[];
+  criteria: string[];
+  citations: string[];
+}
+
+interface Position {
+  optionIndex: number;
+  criterionIndex: number;
+}
+
+function loadScript(): string[] | null {
+  if (!FAKE_RESPONSES) return null;
+  const text = FAKE_RESPONSES.trim().startsWith('[') ? FAKE_RESPONSES : fs.readFileSync(FAKE_RESPONSES, 'utf-8');
+  const replies: unknown[] = JSON.parse(text);
+  return replies.map((reply) => (typeof reply === 'string' ? reply : JSON.stringify(reply)));
+}
+
+function textOf(message: BaseMessage): string {
+  return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+function poolsFrom(prompt: string): PromptPools {
+  const optionsBlock = prompt.split(/User Options:\s*/)[1] || '';
+  const options: string[] = [];
+  for (const line of optionsBlock.split('\n')) {
+    const match = line.match(/^\s*\d+\.\s+(.+)$/);
+    if (!match) break;
+    options.push(match[1].trim());
+  }
+
+  return {
+    options,
+    criteria: Array.from(new Set(Array.from(prompt.matchAll(/- "([a-z0-9_]+)":/g), (m) => m[1]))),
+    citations: Array.from(new Set(Array.from(prompt.matchAll(/\[(S\d+)\]/g), (m) => m[1]))),
+  };
+}
+
+function schemaFrom(prompt: string): any {
+  const match = prompt.match(/JSON schema:\s*\n(\{.*\})/);
+  return match ? JSON.parse(match[1]) : { type: 'object', properties: {} };
+}
+
+function synthesize(schema: any, pools: PromptPools, name: string, at: Position): unknown {
+  if (schema.enum) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries<any>(schema.properties || {})) {
+        value[key] = synthesize(property, pools, key, at);
+      }
+      return value;
+    }
+    case 'array': {
+      const items = schema.items || {};
+      // One entry per option / criterion when the items are keyed by them
+      if (items.properties?.option && pools.options.length > 0) {
+        return pools.options.map((_, optionIndex) => synthesize(items, pools, name, { ...at, optionIndex }));
+      }
+      if (items.properties?.criterion && pools.criteria.length > 0) {
+        return pools.criteria.map((_, criterionIndex) => synthesize(items, pools, name, { ...at, criterionIndex }));
+      }
+      return Array.from({ length: Math.max(schema.minItems || 0, 1) }, () => synthesize(items, pools, name, at));
+    }
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 10;
+      return min + ((at.optionIndex * 3 + at.criterionIndex * 2) % (max - min + 1));
+    }
+    case 'boolean':
+      return false;
+    default:
+      if (['recommendation', 'option', 'winner'].includes(name)) return pools.options[at.optionIndex] || 'Option 1';
+      if (name === 'criterion') return pools.criteria[at.criterionIndex] || 'criterion';
+      if (name === 'source' && pools.citations.length > 0) return pools.citations[0];
+      return `Offline fake response for "${name}".${pools.citations.length > 0 ? ` [${pools.citations[0]}]` : ''}`;
+  }
+}
+
+export const fakeProvider: LLMProvider = {
+  id: 'fake',
+  defaultModel: 'scripted',
+  missingConfig: () => null,
+  createModel: ({ model }) => {
+    const script = loadScript();
+    let turn = 0;
+
+    return {
+      info: { provider: 'fake', model },
+      async *streamText(messages) {
+        let reply: string;
+        if (script && script.length > 0) {
+          reply = script[Math.min(turn, script.length - 1)];
+        } else {
+          const prompt = textOf(messages[0]);
+          reply = JSON.stringify(synthesize(schemaFrom(prompt), poolsFrom(prompt), 'root', { optionIndex: 0, criterionIndex: 0 }));
+        }
+        turn++;
+
+        for (let i = 0; i < reply.length; i += CHUNK_SIZE) {
+          yield reply.slice(i, i + CHUNK_SIZE);
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,121 @@
+import { ChatGroq } from '@langchain/groq';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ChatOpenAI } from '@langchain/openai';
+import { DecisionError } from '@/lib/decision/errors';
+import { fakeProvider } from './fake';
+import { PROVIDER_IDS, type ChatModel, type LLMProvider, type ModelInfo, type ProviderId } from './types';
+
+const GROQ_KEY = process.env.GROQ_API_KEY;
+const GOOGLE_KEY = process.env.GOOGLE_API_KEY;
+const OPENAI_COMPATIBLE_BASE_URL = process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1';
+const OPENAI_COMPATIBLE_KEY = process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed';
+
+// Provider and model used when a request doesn't pick one
+const defaultProvider = providerSetting('LLM_PROVIDER');
+const DEFAULT_MODEL = process.env.LLM_MODEL;
+
+// LangChain chunks carry either a string or a list of content parts
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.map((part) => (typeof part === 'string' ? part : part?.text || '')).join('');
+  return '';
+}
+
+const groqProvider: LLMProvider = {
+  id: 'groq',
+  defaultModel: 'llama-3.1-8b-instant',
+  missingConfig: () => (GROQ_KEY ? null : 'GROQ_API_KEY'),
+  createModel: ({ model, temperature, maxTokens }) => {
+    const chat = new ChatGroq({ apiKey: GROQ_KEY, model, temperature, maxTokens });
+    return {
+      info: { provider: 'groq', model },
+      async *streamText(messages, { json } = {}) {
+        const stream = await chat.stream(messages, json ? { response_format: { type: 'json_object' } } : {});
+        for await (const chunk of stream) yield textOf(chunk.content);
+      },
+    };
+  },
+};
+
+const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  defaultModel: 'gemini-2.0-flash',
+  missingConfig: () => (GOOGLE_KEY ? null : 'GOOGLE_API_KEY'),
+  createModel: ({ model, temperature, maxTokens }) => ({
+    info: { provider: 'gemini', model },
+    async *streamText(messages, { json } = {}) {
+      // Gemini's JSON mode is a constructor flag rather than a call option
+      const chat = new ChatGoogleGenerativeAI({ apiKey: GOOGLE_KEY, model, temperature, maxOutputTokens: maxTokens, json });
+      const stream = await chat.stream(messages);
+      for await (const chunk of stream) yield textOf(chunk.content);
+    },
+  }),
+};
+
+// Any server speaking the OpenAI chat API: Ollama, llama.cpp, vLLM, LM Studio...
+const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+  missingConfig: () => null,
+  createModel: ({ model, temperature, maxTokens }) => {
+    const chat = new ChatOpenAI({
+      apiKey: OPENAI_COMPATIBLE_KEY,
+      model,
+      temperature,
+      maxTokens,
+      configuration: { baseURL: OPENAI_COMPATIBLE_BASE_URL },
+    });
+    return {
+      info: { provider: 'openai-compatible', model },
+      async *streamText(messages, { json } = {}) {
+        const stream = await chat.stream(messages, json ? { response_format: { type: 'json_object' } } : {});
+        for await (const chunk of stream) yield textOf(chunk.content);
+      },
+    };
+  },
+};
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  groq: groqProvider,
+  gemini: geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  fake: fakeProvider,
+};
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return PROVIDER_IDS.includes(value as ProviderId);
+}
+
+// Reads a provider id from the server configuration. The value is checked when
+// the module loads; a typo is logged then, and fails every request that needs
+// the setting with a 500, since the request itself is not at fault.
+export function providerSetting(name: string): () => ProviderId | undefined {
+  const value = process.env[name] || undefined;
+  const valid = value === undefined || isProviderId(value);
+  if (!valid) console.error(`❌ ${name}="${value}" is not an LLM provider. Use one of: ${PROVIDER_IDS.join(', ')}.`);
+
+  return () => {
+    if (!valid) throw new DecisionError(`Server misconfigured: ${name} names unknown LLM provider "${value}".`, 500);
+    return value as ProviderId | undefined;
+  };
+}
+
+// Picks the provider/model for a request, falling back to LLM_PROVIDER and
+// LLM_MODEL, and fails fast when the provider is missing its configuration.
+export function resolveModel(selection: Partial<ModelInfo> = {}, temperature = 0.1, maxTokens?: number): ChatModel {
+  const configured = defaultProvider() || 'groq';
+  const providerId = selection.provider || configured;
+  const provider = PROVIDERS[providerId];
+  if (!provider) {
+    throw new DecisionError(`Unknown LLM provider "${providerId}". Use one of: ${PROVIDER_IDS.join(', ')}.`, 400);
+  }
+
+  const missing = provider.missingConfig();
+  if (missing) {
+    throw new DecisionError(`Missing API Keys (${missing}) for LLM provider "${providerId}".`, 500);
+  }
+
+  // LLM_MODEL belongs to the default provider
+  const model = selection.model || (providerId === configured && DEFAULT_MODEL) || provider.defaultModel;
+  return provider.createModel({ model, temperature, maxTokens });
+}
@@ -0,0 +1,38 @@
+import type { BaseMessage } from '@langchain/core/messages';
+
+export type ProviderId = 'groq' | 'gemini' | 'openai-compatible' | 'fake';
+
+export const PROVIDER_IDS: ProviderId[] = ['groq', 'gemini', 'openai-compatible', 'fake'];
+
+// Recorded on every response so a result can be traced back to its model
+export interface ModelInfo {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ModelOptions {
+  model: string;
+  temperature: number;
+  // Cap on generated tokens per call; provider default when omitted
+  maxTokens?: number;
+}
+
+export interface StreamOptions {
+  // Ask the provider for JSON-only output where it supports a JSON mode
+  json?: boolean;
+}
+
+// What the decision pipeline talks to. Each provider wraps its LangChain chat
+// model behind this so the pipeline never depends on a vendor class.
+export interface ChatModel {
+  info: ModelInfo;
+  streamText(messages: BaseMessage[], options?: StreamOptions): AsyncGenerator<string>;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  defaultModel: string;
+  // Names the missing setting, or returns null when the provider is usable
+  missingConfig(): string | null;
+  createModel(options: ModelOptions): ChatModel;
+}
@@ -0,0 +1,69 @@
+import { DecisionError } from '@/lib/decision/errors';
+import type { PromptRef } from '@/lib/decision/types';
+import { DEFAULT_PROMPT_ID, getPrompt, isPromptId, type PromptVersion } from './registry';
+
+// --- PROMPT A/B EXPERIMENTS ---
+// PROMPT_VERSION picks the prompt every request uses. PROMPT_EXPERIMENT splits
+// traffic between versions instead, e.g. "reasoning-v1:50,reasoning-v2:50",
+// with weights as relative shares. Requests are bucketed by a hash of the
+// problem and options, so the same question always gets the same arm.
+
+const PROMPT_VERSION = process.env.PROMPT_VERSION || DEFAULT_PROMPT_ID;
+const PROMPT_EXPERIMENT = process.env.PROMPT_EXPERIMENT || '';
+
+interface Arm {
+  id: string;
+  weight: number;
+}
+
+function parseExperiment(spec: string): Arm[] {
+  const arms = spec.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const [id, weight = '1'] = entry.split(':');
+    if (!isPromptId(id)) throw new DecisionError(`PROMPT_EXPERIMENT names unknown prompt version "${id}".`, 500);
+    const share = Number(weight);
+    if (!Number.isFinite(share) || share <= 0) throw new DecisionError(`PROMPT_EXPERIMENT has an invalid weight for "${id}".`, 500);
+    return { id, weight: share };
+  });
+  if (arms.length < 2) throw new DecisionError('PROMPT_EXPERIMENT needs at least two prompt versions.', 500);
+  return arms;
+}
+
+// The experiment's name is its arms, so changing the split starts a new experiment
+export const experimentName = (arms: Arm[]) => arms.map((arm) => `${arm.id}:${arm.weight}`).join(',');
+
+// FNV-1a, mapped to [0, 1)
+function bucket(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+export const promptRef = (version: PromptVersion, experiment: string | null): PromptRef => ({
+  id: version.id,
+  hash: version.sha256,
+  experiment,
+});
+
+// `pinned` comes from the request (e.g. replaying a saved decision) and bypasses the experiment
+export function assignPrompt(key: string, pinned?: string): { version: PromptVersion; ref: PromptRef } {
+  if (pinned) {
+    const version = getPrompt(pinned);
+    return { version, ref: promptRef(version, null) };
+  }
+
+  if (!PROMPT_EXPERIMENT) {
+    if (!isPromptId(PROMPT_VERSION)) throw new DecisionError(`PROMPT_VERSION names unknown prompt version "${PROMPT_VERSION}".`, 500);
+    const version = getPrompt(PROMPT_VERSION);
+    return { version, ref: promptRef(version, null) };
+  }
+
+  const arms = parseExperiment(PROMPT_EXPERIMENT);
+  const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let point = bucket(key) * total;
+  const arm = arms.find((candidate) => (point -= candidate.weight) < 0) || arms[arms.length - 1];
+  const version = getPrompt(arm.id);
+  return { version, ref: promptRef(version, experimentName(arms)) };
+}
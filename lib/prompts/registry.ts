@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+import { decisionOutputSchema } from '@/lib/decision/schema';
+import { formatInstructions } from '@/lib/decision/structured';
+
+// --- PROMPT REGISTRY ---
+// Reasoning prompts are versioned artifacts: each version has an id and the
+// SHA-256 of its text. A version's text must never change once results have
+// been produced with it; edit by adding a new version. Changing the text of an
+// existing version without updating its hash fails at startup, and updating
+// the hash is refused by the database for versions it has already seen.
+// The hash covers the output format too: it is generated from
+// `decisionOutputSchema`, so a schema change also needs new versions.
+
+export interface PromptVersion {
+  id: string;
+  // What changed compared to the previous version
+  description: string;
+  template: string;
+  sha256: string;
+}
+
+const PROMPT_VERSIONS: PromptVersion[] = [
+  {
+    id: 'reasoning-v1',
+    description: 'Choose, cite, score, then list evidence per option.',
+    sha256: 'a1f84e550924932f9aef8eaaa1db4a6ed4c70e3d3f99ed2dddf2f791b857f020',
+    template: `
+      {persona}
+      {guidance}
+
+      User Problem: {problem}
+      User Options: {options}
+
+      CONTEXT FROM LIBRARY (STRICT):
+      {context}
+      {debate}
+
+      Instructions:
+      1. Select exactly one of the user options.
+      2. Identify the specific mental models found in the context.
+      3. Do NOT force a framework if it is not in the context.
+      4. Each context passage starts with a citation key such as [S1]. Cite the keys of the passages you rely on inside "detailed_reasoning".
+      5. Score EVERY option against each of these criteria (1-10, 10 = best for the user), with a one-line justification:
+      {criteria}
+      6. For EVERY option, list in "evidence" the passages that support it and the passages that argue against it, by citation key. Passages marked "retrieved for" an option were found by searching for that option.
+
+      {format_instructions}
+    `,
+  },
+  {
+    id: 'reasoning-v2',
+    description: 'Weighs the evidence for every option before choosing, to reduce anchoring on the first plausible option.',
+    sha256: '6fb411b4cf9804dd0debb52b1440c92e791419dcd8fda92e94d9293643321a96',
+    template: `
+      {persona}
+      {guidance}
+
+      User Problem: {problem}
+      User Options: {options}
+
+      CONTEXT FROM LIBRARY (STRICT):
+      {context}
+      {debate}
+
+      Instructions:
+      1. Each context passage starts with a citation key such as [S1]. Passages marked "retrieved for" an option were found by searching for that option.
+      2. Before choosing, go through EVERY option and list in "evidence" the passages that support it and the passages that argue against it, by citation key.
+      3. Score EVERY option against each of these criteria (1-10, 10 = best for the user), with a one-line justification:
+      {criteria}
+      4. Only then select exactly one of the user options: the one the evidence and scores favour.
+      5. In "detailed_reasoning", name the specific mental models found in the context and cite the keys of the passages you rely on. Do NOT force a framework if it is not in the context.
+
+      {format_instructions}
+    `,
+  },
+  {
+    id: 'reasoning-v3',
+    description: 'reasoning-v1 plus a full ranking with a "why not" and a win condition for every rejected option.',
+    sha256: '73aa3ec1b3f95f3a59ca499e7e6964b60d5edf628bce1e84982a204e6b1d4c4d',
+    template: `
+      {persona}
+      {guidance}
+
+      User Problem: {problem}
+      User Options: {options}
+
+      CONTEXT FROM LIBRARY (STRICT):
+      {context}
+      {debate}
+
+      Instructions:
+      1. Select exactly one of the user options.
+      2. Identify the specific mental models found in the context.
+      3. Do NOT force a framework if it is not in the context.
+      4. Each context passage starts with a citation key such as [S1]. Cite the keys of the passages you rely on inside "detailed_reasoning".
+      5. Score EVERY option against each of these criteria (1-10, 10 = best for the user), with a one-line justification:
+      {criteria}
+      6. For EVERY option, list in "evidence" the passages that support it and the passages that argue against it, by citation key. Passages marked "retrieved for" an option were found by searching for that option.
+      7. Rank ALL options in "ranking", best first. For each option you did not pick, say specifically why it lost and the condition under which it would have won.
+
+      {format_instructions}
+    `,
+  },
+];
+
+export const DEFAULT_PROMPT_ID = 'reasoning-v3';
+
+export const FORMAT_INSTRUCTIONS = formatInstructions(decisionOutputSchema);
+
+// The version's text as sent to the model, apart from the per-request inputs
+export const renderPrompt = (version: PromptVersion) => version.template.replace('{format_instructions}', FORMAT_INSTRUCTIONS);
+
+export const hashPrompt = (text: string) => createHash('sha256').update(text).digest('hex');
+
+PROMPT_VERSIONS.forEach((version) => {
+  if (hashPrompt(renderPrompt(version)) !== version.sha256) {
+    throw new Error(`Prompt "${version.id}" does not match its recorded hash. Prompt text is immutable: add a new version instead of editing this one.`);
+  }
+});
+
+export function isPromptId(value: unknown): value is string {
+  return PROMPT_VERSIONS.some((version) => version.id === value);
+}
+
+export function getPrompt(id: string): PromptVersion {
+  const version = PROMPT_VERSIONS.find((entry) => entry.id === id);
+  if (!version) throw new Error(`Unknown prompt version "${id}".`);
+  return version;
+}
@@ -0,0 +1,61 @@
+import { createClient } from '@supabase/supabase-js';
+import { DecisionError } from '@/lib/decision/errors';
+import { UNABLE_TO_ANALYZE, type DecisionRequest, type DecisionResult } from '@/lib/decision/types';
+import { getPrompt, renderPrompt } from './registry';
+
+// --- PROMPT RUNS & FEEDBACK ---
+// Every answered request is stored with the prompt version that produced it,
+// and users can rate the answer. The `prompt_experiment_results` view compares
+// the versions on both.
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const client = () => createClient(SUPABASE_URL!, SUPABASE_KEY!);
+
+// Returns the run id, or null when the run could not be stored; a result is
+// still worth returning without it
+export async function recordRun(input: DecisionRequest, result: DecisionResult): Promise<string | null> {
+  try {
+    const supabase = client();
+    const version = getPrompt(result.prompt.id);
+
+    // First use of a version stores its text, output format included. An
+    // existing row is never updated, so a version whose text changed fails
+    // the foreign key below.
+    const { error: versionError } = await supabase
+      .from('prompt_versions')
+      .upsert({ id: version.id, sha256: version.sha256, template: renderPrompt(version) }, { onConflict: 'id', ignoreDuplicates: true });
+    if (versionError) throw versionError;
+
+    const { data, error } = await supabase
+      .from('prompt_runs')
+      .insert({
+        prompt_id: result.prompt.id,
+        prompt_sha256: result.prompt.hash,
+        experiment: result.prompt.experiment,
+        mode: input.mode,
+        model: result.model ? `${result.model.provider}:${result.model.model}` : null,
+        recommendation: result.recommendation,
+        abstained: result.recommendation === UNABLE_TO_ANALYZE,
+        confidence: result.confidence ?? null,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id;
+  } catch (err: any) {
+    console.error('⚠️ Could not record the prompt run:', err.message);
+    return null;
+  }
+}
+
+export async function recordFeedback(runId: string, helpful: boolean, comment?: string): Promise<void> {
+  const { error } = await client()
+    .from('prompt_feedback')
+    .insert({ run_id: runId, helpful, comment: comment || null });
+  if (error) {
+    // 23503: the run doesn't exist
+    throw new DecisionError(error.code === '23503' ? 'Unknown run.' : 'Could not save feedback.', error.code === '23503' ? 404 : 500);
+  }
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { MatchedDocument } from '@/lib/decision/sources';
+import { selectDiverse } from './mmr';
+
+const chunk = (id: number, content: string, book: string): MatchedDocument => ({
+  id,
+  content,
+  metadata: { source: book },
+  similarity: 0.5,
+  channel: 'vector',
+});
+
+const ids = (documents: MatchedDocument[]) => documents.map((document) => document.id);
+
+describe('selectDiverse', () => {
+  it('starts with the most relevant candidate and stops at the count', async () => {
+    const candidates = [
+      chunk(1, 'opportunity cost of waiting', 'Decisive'),
+      chunk(2, 'regret minimisation framework', 'Range'),
+      chunk(3, 'reversible two way doors', 'Principles'),
+    ];
+
+    assert.deepEqual(ids(await selectDiverse(candidates, [0.2, 1, 0.6], 2)), [2, 3]);
+  });
+
+  it('passes over a near-duplicate of a chunk it already picked', async () => {
+    const candidates = [
+      chunk(1, 'sunk costs should not drive the decision', 'Decisive'),
+      chunk(2, 'sunk costs should not drive the decision', 'Range'),
+      chunk(3, 'inversion asks how the plan could fail', 'Principles'),
+    ];
+
+    assert.deepEqual(ids(await selectDiverse(candidates, [1, 0.95, 0.6], 2)), [1, 3]);
+  });
+
+  it('prefers another book over a second chunk from the same one', async () => {
+    const candidates = [
+      chunk(1, 'sunk costs should not drive the decision', 'Decisive'),
+      chunk(2, 'widen your options before choosing', 'Decisive'),
+      chunk(3, 'inversion asks how the plan could fail', 'Principles'),
+    ];
+
+    assert.deepEqual(ids(await selectDiverse(candidates, [1, 0.9, 0.8], 2)), [1, 3]);
+  });
+
+  it('keeps the relevance order when the candidates are unrelated', async () => {
+    const candidates = [
+      chunk(1, 'sunk costs should not drive the decision', 'Decisive'),
+      chunk(2, 'widen your options before choosing', 'Range'),
+      chunk(3, 'inversion asks how the plan could fail', 'Principles'),
+    ];
+
+    assert.deepEqual(ids(await selectDiverse(candidates, [0.5, 1, 0.8], 3)), [2, 3, 1]);
+  });
+});
@@ -0,0 +1,45 @@
+import type { MatchedDocument } from '@/lib/decision/sources';
+import { HashingEmbeddings } from '@/lib/embeddings/hashing';
+
+// --- MAXIMAL MARGINAL RELEVANCE ---
+// Greedily picks the candidate with the best trade-off between relevance and
+// redundancy with what is already picked. Redundancy is the larger of the
+// chunks' lexical similarity and a flat penalty for coming from the same book,
+// so near-duplicates and single-book contexts are both pushed down.
+
+const LAMBDA = 0.7;
+const SAME_BOOK_PENALTY = 0.35;
+
+const lexical = new HashingEmbeddings(384);
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+// `relevance` holds one score per candidate, normalized to 0..1
+export async function selectDiverse(candidates: MatchedDocument[], relevance: number[], count: number): Promise<MatchedDocument[]> {
+  const vectors = await lexical.embedDocuments(candidates.map((candidate) => candidate.content));
+  const bookOf = (index: number) => candidates[index].metadata?.source;
+
+  const picked: number[] = [];
+  const remaining = candidates.map((_, index) => index);
+
+  while (picked.length < count && remaining.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, position) => {
+      const redundancy = picked.reduce((max, chosen) => {
+        const sameBook = bookOf(candidate) && bookOf(candidate) === bookOf(chosen) ? SAME_BOOK_PENALTY : 0;
+        return Math.max(max, cosine(vectors[candidate], vectors[chosen]), sameBook);
+      }, 0);
+      const score = LAMBDA * relevance[candidate] - (1 - LAMBDA) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    });
+
+    picked.push(remaining.splice(best, 1)[0]);
+  }
+
+  return picked.map((index) => candidates[index]);
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MatchedDocument } from '@/lib/decision/sources';
+import { getEmbeddingSpec } from '@/lib/embeddings/models';
+import { searchAll, withOptionCoverage, type RetrievalQuery } from './queries';
+
+const spec = getEmbeddingSpec('local:hashing-384');
+
+type Row = Omit<MatchedDocument, 'channel'>;
+
+const row = (id: number, similarity: number): Row => ({ id, content: `Chunk ${id}`, metadata: { source: 'Book' }, similarity });
+
+// Answers each query with its own rows; the query is told apart by the first
+// component of its vector
+function fakeClient(rowsPerQuery: Row[][]): SupabaseClient {
+  return {
+    rpc: async (_name: string, args: { query_embedding: number[] }) => ({ data: rowsPerQuery[args.query_embedding[0]], error: null }),
+  } as unknown as SupabaseClient;
+}
+
+const QUERIES: RetrievalQuery[] = [
+  { kind: 'problem', text: 'Keep funding the project?' },
+  { kind: 'option', text: 'Keep going', option: 'Keep going' },
+  { kind: 'option', text: 'Stop now', option: 'Stop now' },
+];
+
+const search = (rowsPerQuery: Row[][]) =>
+  searchAll(fakeClient(rowsPerQuery), { queries: QUERIES, vectors: QUERIES.map((_, i) => [i]), spec });
+
+describe('searchAll', () => {
+  it('ranks a chunk several queries found above one with a better similarity', async () => {
+    const documents = await search([
+      [row(1, 0.9), row(2, 0.5)],
+      [row(2, 0.4)],
+      [row(2, 0.45)],
+    ]);
+
+    assert.deepEqual(documents.map((document) => document.id), [2, 1]);
+  });
+
+  it('fuses by rank within each query, not by raw similarity', async () => {
+    const documents = await search([
+      [row(1, 0.9), row(3, 0.8)],
+      [row(4, 0.2)],
+      [],
+    ]);
+
+    // Chunk 4 leads its only query, so it ties with chunk 1 and keeps the first-seen order
+    assert.deepEqual(documents.map((document) => document.id), [1, 4, 3]);
+    assert.equal(documents[0].rrfScore, documents[1].rrfScore);
+    assert.ok(documents[1].rrfScore! > documents[2].rrfScore!);
+  });
+
+  it('merges a chunk into one entry with its best similarity and every option that found it', async () => {
+    const [document] = await search([[row(5, 0.3)], [row(5, 0.7)], [row(5, 0.5)]]);
+
+    assert.equal(document.similarity, 0.7);
+    assert.deepEqual(document.options, ['Keep going', 'Stop now']);
+    assert.equal(document.rrfScore, 3 / 51);
+  });
+});
+
+describe('withOptionCoverage', () => {
+  const tagged = (id: number, options: string[]): MatchedDocument => ({ ...row(id, 0.5), channel: 'vector', options });
+
+  it('tops up an option that has too little evidence of its own', () => {
+    const candidates = [tagged(1, ['Keep going']), tagged(2, ['Keep going']), tagged(3, ['Stop now']), tagged(4, ['Stop now']), tagged(5, ['Stop now'])];
+    const context = withOptionCoverage(candidates.slice(0, 2), candidates, ['Keep going', 'Stop now']);
+
+    assert.deepEqual(context.map((document) => document.id), [1, 2, 3, 4]);
+  });
+
+  it('leaves a context that covers every option as it is', () => {
+    const candidates = [tagged(1, ['Keep going', 'Stop now']), tagged(2, ['Keep going', 'Stop now']), tagged(3, ['Stop now'])];
+    const context = withOptionCoverage(candidates.slice(0, 2), candidates, ['Keep going', 'Stop now']);
+
+    assert.deepEqual(context.map((document) => document.id), [1, 2]);
+  });
+});
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { MatchedDocument, RetrievalChannel } from '@/lib/decision/sources';
+import { formatInstructions, generateStructured } from '@/lib/decision/structured';
+import type { EmbeddingSpec } from '@/lib/embeddings/models';
+import type { ChatModel } from '@/lib/llm/types';
+import { searchLibrary } from './search';
+
+// --- MULTI-QUERY RETRIEVAL ---
+// One query for the problem and one per option, so every alternative pulls in
+// library material of its own. LLM query rewriting and a hypothetical-answer
+// (HyDE) query can be switched on to widen recall for vaguely worded problems.
+
+const QUERY_REWRITE = process.env.QUERY_REWRITE === 'true';
+const HYDE = process.env.HYDE === 'true';
+
+const PROBLEM_QUERY_COUNT = 20;
+const OPTION_QUERY_COUNT = 10;
+// Chunks from an option's own queries guaranteed a place in the context
+const MIN_PER_OPTION = 2;
+// Damping constant of the reciprocal rank fusion across queries, as in match_documents_hybrid
+const RRF_K = 50;
+
+export type QueryKind = 'problem' | 'option' | 'hint' | 'rewrite' | 'hyde';
+
+export interface RetrievalQuery {
+  kind: QueryKind;
+  text: string;
+  // Set for 'option' queries
+  option?: string;
+}
+
+interface DecisionQuestion {
+  problem: string;
+  options: string[];
+  // Search terms from the decision template
+  hints?: string[];
+}
+
+const rewriteSchema = z.object({
+  queries: z
+    .array(z.string().min(1))
+    .describe('2 or 3 short search queries naming the frameworks, mental models or concepts a book would use for this problem.'),
+});
+
+const hydeSchema = z.object({
+  passage: z
+    .string()
+    .min(1)
+    .describe('A short passage (about 100 words) from a book on decision making that would answer this problem.'),
+});
+
+const questionText = ({ problem, options }: DecisionQuestion) =>
+  `Problem: ${problem}\nOptions:\n${options.map((option, i) => `${i + 1}. ${option}`).join('\n')}`;
+
+async function rewriteQueries(question: DecisionQuestion, model: ChatModel): Promise<RetrievalQuery[]> {
+  const { queries } = await generateStructured({
+    model,
+    prompt: `Rewrite this decision problem as search queries for a library of books on decision making and strategy.
+
+${questionText(question)}
+
+${formatInstructions(rewriteSchema)}`,
+    schema: rewriteSchema,
+  });
+  return queries.slice(0, 3).map((text) => ({ kind: 'rewrite', text }));
+}
+
+async function hypotheticalAnswer(question: DecisionQuestion, model: ChatModel): Promise<RetrievalQuery[]> {
+  const { passage } = await generateStructured({
+    model,
+    prompt: `Write the passage a book on decision making might contain about this problem. It is only used to search the library, so favour the vocabulary such a book would use.
+
+${questionText(question)}
+
+${formatInstructions(hydeSchema)}`,
+    schema: hydeSchema,
+  });
+  return [{ kind: 'hyde', text: passage }];
+}
+
+// Optional expansions that fail are skipped; the problem and option queries always run.
+async function optional(label: string, enabled: boolean, expand: () => Promise<RetrievalQuery[]>): Promise<RetrievalQuery[]> {
+  if (!enabled) return [];
+  try {
+    return await expand();
+  } catch (err: any) {
+    console.error(`⚠️ ${label} failed, skipping:`, err.message);
+    return [];
+  }
+}
+
+export async function planQueries(question: DecisionQuestion, model: ChatModel): Promise<RetrievalQuery[]> {
+  const { problem, options, hints = [] } = question;
+  const [rewrites, hyde] = await Promise.all([
+    optional('Query rewriting', QUERY_REWRITE, () => rewriteQueries(question, model)),
+    optional('HyDE query', HYDE, () => hypotheticalAnswer(question, model)),
+  ]);
+
+  return [
+    { kind: 'problem', text: problem },
+    // The option leads so its own vocabulary dominates the embedding
+    ...options.map((option): RetrievalQuery => ({ kind: 'option', text: `${option}\n${problem}`, option })),
+    ...(hints.length > 0 ? [{ kind: 'hint' as const, text: `${hints.join(', ')}\n${problem}` }] : []),
+    ...rewrites,
+    ...hyde,
+  ];
+}
+
+export function describeQueries(queries: RetrievalQuery[]): string {
+  const count = (kind: QueryKind) => queries.filter((query) => query.kind === kind).length;
+  const parts = [`problem`, `${count('option')} option${count('option') === 1 ? '' : 's'}`];
+  if (count('hint') > 0) parts.push('template hints');
+  if (count('rewrite') > 0) parts.push(`${count('rewrite')} rewrite${count('rewrite') === 1 ? '' : 's'}`);
+  if (count('hyde') > 0) parts.push('HyDE');
+  return parts.join(', ');
+}
+
+function mergeChannel(a: RetrievalChannel, b: RetrievalChannel): RetrievalChannel {
+  return a === b ? a : 'both';
+}
+
+// Runs every query and merges the hits: one entry per chunk, keeping its best
+// similarity and the options whose queries found it. Sorted by reciprocal rank
+// fusion of the queries' rankings, so the keyword hits hybrid search ranked
+// high aren't buried under chunks with a better cosine similarity.
+export async function searchAll(
+  client: SupabaseClient,
+  { queries, vectors, spec, threshold = 0.1 }: { queries: RetrievalQuery[]; vectors: number[][]; spec: EmbeddingSpec; threshold?: number }
+): Promise<MatchedDocument[]> {
+  const results = await Promise.all(queries.map((query, i) => searchLibrary(client, {
+    text: query.text,
+    vector: vectors[i],
+    spec,
+    count: query.kind === 'option' ? OPTION_QUERY_COUNT : PROBLEM_QUERY_COUNT,
+    threshold,
+  })));
+
+  const merged = new Map<number, MatchedDocument>();
+  results.forEach((documents, i) => {
+    const option = queries[i].option;
+    // Each query's own ranking: fused by the database in hybrid search, by similarity otherwise
+    const ranked = [...documents].sort((a, b) => (b.rrfScore ?? b.similarity) - (a.rrfScore ?? a.similarity));
+    ranked.forEach((document, rank) => {
+      const existing = merged.get(document.id);
+      const options = existing?.options || [];
+      merged.set(document.id, {
+        ...document,
+        similarity: Math.max(document.similarity, existing?.similarity ?? 0),
+        channel: existing ? mergeChannel(existing.channel, document.channel) : document.channel,
+        options: option && !options.includes(option) ? [...options, option] : options,
+        rrfScore: (existing?.rrfScore ?? 0) + 1 / (RRF_K + rank + 1),
+      });
+    });
+  });
+
+  return Array.from(merged.values()).sort((a, b) => b.rrfScore! - a.rrfScore!);
+}
+
+// Tops up the selected context so each option has its own evidence, taking the
+// option's best remaining candidates. The context may grow past its usual size.
+export function withOptionCoverage(selected: MatchedDocument[], candidates: MatchedDocument[], options: string[]): MatchedDocument[] {
+  const context = [...selected];
+  options.forEach((option) => {
+    const forOption = (document: MatchedDocument) => document.options?.includes(option);
+    const missing = MIN_PER_OPTION - context.filter(forOption).length;
+    if (missing <= 0) return;
+
+    candidates
+      .filter((candidate) => forOption(candidate) && !context.includes(candidate))
+      .slice(0, missing)
+      .forEach((candidate) => context.push(candidate));
+  });
+  return context;
+}
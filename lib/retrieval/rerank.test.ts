@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { MatchedDocument } from '@/lib/decision/sources';
+import type { ChatModel } from '@/lib/llm/types';
+
+const query = { problem: 'Should I keep funding the project?', options: ['Keep going', 'Stop now'] };
+
+const chunk = (id: number, content: string, book: string, similarity: number, rrfScore?: number): MatchedDocument => ({
+  id,
+  content,
+  metadata: { source: book },
+  similarity,
+  channel: rrfScore === undefined ? 'vector' : 'both',
+  rrfScore,
+});
+
+// Fails every call, like a provider that is down
+const failingModel: ChatModel = {
+  info: { provider: 'fake', model: 'down' },
+  streamText: async function* () {
+    throw new Error('Service unavailable');
+  },
+};
+
+describe('rerank', () => {
+  let rerank: typeof import('./rerank').rerank;
+  let activeReranker: typeof import('./rerank').activeReranker;
+
+  before(async () => {
+    // Read when the module loads; the LLM reranker fails with the model above
+    process.env.RERANKER = 'llm';
+    console.error = () => {};
+    ({ rerank, activeReranker } = await import('./rerank'));
+  });
+
+  it('falls back to the fused retrieval ranking when the reranker fails', async () => {
+    const candidates = [
+      chunk(1, 'sunk costs should not drive the decision', 'Decisive', 0.8, 0.02),
+      chunk(2, 'kill criteria set before the project starts', 'Range', 0.05, 0.05),
+      chunk(3, 'inversion asks how the plan could fail', 'Principles', 0.6, 0.01),
+    ];
+
+    assert.equal(activeReranker(), 'llm');
+    const documents = await rerank(query, candidates, 2, failingModel);
+    assert.deepEqual(documents.map((document) => document.id), [2, 1]);
+  });
+
+  it('ranks by similarity when retrieval fused nothing', async () => {
+    const candidates = [
+      chunk(1, 'sunk costs should not drive the decision', 'Decisive', 0.4),
+      chunk(2, 'kill criteria set before the project starts', 'Range', 0.9),
+      chunk(3, 'inversion asks how the plan could fail', 'Principles', 0.7),
+    ];
+
+    const documents = await rerank(query, candidates, 3, failingModel);
+    assert.deepEqual(documents.map((document) => document.id), [2, 3, 1]);
+  });
+
+  it('returns nothing for no candidates', async () => {
+    assert.deepEqual(await rerank(query, [], 5, failingModel), []);
+  });
+});
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import type { MatchedDocument } from '@/lib/decision/sources';
+import { formatInstructions, generateStructured } from '@/lib/decision/structured';
+import type { ChatModel } from '@/lib/llm/types';
+import { selectDiverse } from './mmr';
+
+// --- RERANKING ---
+// Candidates are over-fetched from the library, rescored against the problem
+// and the options by the configured reranker, then narrowed with MMR.
+
+export type RerankerId = 'llm' | 'cross-encoder' | 'none';
+
+const RERANKER_IDS: RerankerId[] = ['llm', 'cross-encoder', 'none'];
+
+const isRerankerId = (value: string): value is RerankerId => (RERANKER_IDS as string[]).includes(value);
+
+// Checked when the module loads; a typo is logged then and leaves reranking off
+function rerankerSetting(value = 'none'): RerankerId {
+  if (isRerankerId(value)) return value;
+  console.error(`❌ RERANKER="${value}" is not a reranker. Use one of: ${RERANKER_IDS.join(', ')}. Falling back to "none".`);
+  return 'none';
+}
+
+const RERANKER = rerankerSetting(process.env.RERANKER || undefined);
+// A text-embeddings-inference compatible /rerank endpoint serving a cross-encoder
+const RERANKER_URL = process.env.RERANKER_URL || 'http://localhost:8080';
+const LLM_PASSAGE_LENGTH = 500;
+
+export interface RerankQuery {
+  problem: string;
+  options: string[];
+}
+
+interface Reranker {
+  id: RerankerId;
+  // One raw relevance score per candidate, higher is more relevant
+  score(query: RerankQuery, candidates: MatchedDocument[], model: ChatModel): Promise<number[]>;
+}
+
+const queryText = ({ problem, options }: RerankQuery) => `${problem}\nOptions: ${options.join('; ')}`;
+
+const llmScoresSchema = z.object({
+  scores: z
+    .array(z.object({
+      key: z.string().describe('The passage key, e.g. "C3".'),
+      score: z.number().min(0).max(10).describe('0 = irrelevant, 10 = directly useful for choosing between the options.'),
+    }))
+    .describe('One entry per passage.'),
+});
+
+// Keeps the retrieval ranking: the fused score where retrieval fused rankings
+// (hybrid search, multi-query), so keyword-only hits with a low cosine
+// similarity keep their place
+const noneReranker: Reranker = {
+  id: 'none',
+  score: async (_query, candidates) => candidates.map((candidate) => candidate.rrfScore ?? candidate.similarity),
+};
+
+const llmReranker: Reranker = {
+  id: 'llm',
+  score: async (query, candidates, model) => {
+    const passages = candidates
+      .map((candidate, i) => `[C${i + 1}] ${candidate.content.replace(/\s+/g, ' ').slice(0, LLM_PASSAGE_LENGTH)}`)
+      .join('\n\n');
+
+    const { scores } = await generateStructured({
+      model,
+      prompt: `Rate how useful each library passage is for deciding the problem below.
+
+Problem and options:
+${queryText(query)}
+
+Passages:
+${passages}
+
+${formatInstructions(llmScoresSchema)}`,
+      schema: llmScoresSchema,
+    });
+
+    // Passages the model skipped count as irrelevant
+    const byKey = new Map(scores.map((entry) => [entry.key.replace(/[\[\]]/g, ''), entry.score]));
+    return candidates.map((_, i) => byKey.get(`C${i + 1}`) ?? 0);
+  },
+};
+
+const crossEncoderReranker: Reranker = {
+  id: 'cross-encoder',
+  score: async (query, candidates) => {
+    const response = await fetch(`${RERANKER_URL}/rerank`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: queryText(query), texts: candidates.map((candidate) => candidate.content), truncate: true }),
+    });
+    if (!response.ok) throw new Error(`Cross-encoder reranker returned ${response.status}`);
+
+    const ranked: { index: number; score: number }[] = await response.json();
+    const scores = new Array<number>(candidates.length).fill(0);
+    ranked.forEach(({ index, score }) => {
+      scores[index] = score;
+    });
+    return scores;
+  },
+};
+
+const RERANKERS: Record<RerankerId, Reranker> = {
+  llm: llmReranker,
+  'cross-encoder': crossEncoderReranker,
+  none: noneReranker,
+};
+
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) => (max > min ? (score - min) / (max - min) : 1));
+}
+
+export function activeReranker(): RerankerId {
+  return RERANKER;
+}
+
+// Rescores `candidates` and returns the `count` most relevant, diverse ones.
+// A failing reranker falls back to the retrieval ranking rather than failing the request.
+export async function rerank(query: RerankQuery, candidates: MatchedDocument[], count: number, model: ChatModel): Promise<MatchedDocument[]> {
+  if (candidates.length === 0) return [];
+
+  let scores: number[];
+  try {
+    scores = await RERANKERS[activeReranker()].score(query, candidates, model);
+  } catch (err: any) {
+    console.error(`⚠️ Reranker "${activeReranker()}" failed, falling back to the retrieval ranking:`, err.message);
+    scores = await noneReranker.score(query, candidates, model);
+  }
+
+  return selectDiverse(candidates, normalize(scores), count);
+}
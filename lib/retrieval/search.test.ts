@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getEmbeddingSpec } from '@/lib/embeddings/models';
+
+const spec = getEmbeddingSpec('local:hashing-384');
+
+// A client whose rpc() answers with `data`, recording the calls
+function fakeClient(data: unknown[] | null, error: { message: string } | null = null) {
+  const calls: { name: string; args: Record<string, unknown> }[] = [];
+  const client = {
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      calls.push({ name, args });
+      return { data, error };
+    },
+  } as unknown as SupabaseClient;
+  return { client, calls };
+}
+
+const row = (id: number, vectorRank: number | null, keywordRank: number | null, rrfScore: number) => ({
+  id,
+  content: `Chunk ${id}`,
+  metadata: { source: 'Book' },
+  similarity: 0.5,
+  vector_rank: vectorRank,
+  keyword_rank: keywordRank,
+  rrf_score: rrfScore,
+});
+
+describe('searchLibrary with hybrid search', () => {
+  let searchLibrary: typeof import('./search').searchLibrary;
+
+  before(async () => {
+    // Read when the module loads
+    process.env.HYBRID_SEARCH = 'true';
+    console.error = () => {};
+    ({ searchLibrary } = await import('./search'));
+  });
+
+  it('searches both channels in the model space', async () => {
+    const { client, calls } = fakeClient([]);
+    await searchLibrary(client, { text: 'sunk cost', vector: [0.1, 0.2], spec, count: 5, threshold: 0.2 });
+
+    assert.deepEqual(calls, [{
+      name: 'match_documents_hybrid',
+      args: { embedding_model: spec.id, query_text: 'sunk cost', query_embedding: [0.1, 0.2], match_threshold: 0.2, match_count: 5 },
+    }]);
+  });
+
+  it('labels each hit with the channels that found it and keeps the fused score', async () => {
+    const { client } = fakeClient([row(1, 1, 2, 0.039), row(2, null, 1, 0.02), row(3, 2, null, 0.019)]);
+    const documents = await searchLibrary(client, { text: 'sunk cost', vector: [], spec });
+
+    assert.deepEqual(documents.map((document) => [document.id, document.channel, document.rrfScore]), [
+      [1, 'both', 0.039],
+      [2, 'keyword', 0.02],
+      [3, 'vector', 0.019],
+    ]);
+  });
+
+  it('fails the search when the database does', async () => {
+    const { client } = fakeClient(null, { message: 'function match_documents_hybrid does not exist' });
+
+    await assert.rejects(searchLibrary(client, { text: 'sunk cost', vector: [], spec }), { message: 'Database search failed.', status: 500 });
+  });
+});
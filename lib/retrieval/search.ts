@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DecisionError } from '@/lib/decision/errors';
+import type { MatchedDocument, RetrievalChannel } from '@/lib/decision/sources';
+import type { EmbeddingSpec } from '@/lib/embeddings/models';
+
+// Fuse full-text and vector rankings (match_documents_hybrid) instead of
+// searching the embedding space alone
+const HYBRID_SEARCH = process.env.HYBRID_SEARCH === 'true';
+
+export interface SearchQuery {
+  text: string;
+  vector: number[];
+  spec: EmbeddingSpec;
+  count?: number;
+  threshold?: number;
+}
+
+interface HybridRow {
+  id: number;
+  content: string;
+  metadata: Record<string, any> | null;
+  similarity: number;
+  vector_rank: number | null;
+  keyword_rank: number | null;
+  rrf_score: number;
+}
+
+function channelOf(row: HybridRow): RetrievalChannel {
+  if (row.vector_rank !== null && row.keyword_rank !== null) return 'both';
+  return row.keyword_rank !== null ? 'keyword' : 'vector';
+}
+
+export function isHybridSearchEnabled(): boolean {
+  return HYBRID_SEARCH;
+}
+
+export async function searchLibrary(client: SupabaseClient, { text, vector, spec, count = 10, threshold = 0.1 }: SearchQuery): Promise<MatchedDocument[]> {
+  if (HYBRID_SEARCH) {
+    const { data, error } = await client.rpc('match_documents_hybrid', {
+      embedding_model: spec.id,
+      query_text: text,
+      query_embedding: vector,
+      match_threshold: threshold,
+      match_count: count,
+    });
+    if (error) {
+      console.error('Supabase Error:', error);
+      throw new DecisionError('Database search failed.');
+    }
+    return ((data || []) as HybridRow[]).map((row) => ({
+      id: row.id,
+      content: row.content,
+      metadata: row.metadata,
+      similarity: row.similarity,
+      channel: channelOf(row),
+      rrfScore: row.rrf_score,
+    }));
+  }
+
+  const { data, error } = await client.rpc('match_documents_for_model', {
+    embedding_model: spec.id,
+    query_embedding: vector,
+    match_threshold: threshold,
+    match_count: count,
+  });
+  if (error) {
+    console.error('Supabase Error:', error);
+    throw new DecisionError('Database search failed.');
+  }
+  return ((data || []) as Omit<MatchedDocument, 'channel'>[]).map((row) => ({ ...row, channel: 'vector' }));
+}
@@ -4,55 +4,60 @@ import path from "path";
 import { PDFLoader } from "langchain/document_loaders/fs/pdf";
 import { EPubLoader } from "langchain/document_loaders/fs/epub";
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
 import { createClient } from "@supabase/supabase-js";
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
-import { TaskType } from "@google/generative-ai";
+import { createEmbeddings } from "../lib/embeddings/providers";
+import { registerEmbeddingSpace } from "../lib/embeddings/guard";
+import { storeChunks } from "../lib/embeddings/store";
 
 const cleanText = (text: string): string => {
   return text.replace(/\u0000/g, "").replace(/\0/g, "");
 };
 
 const run = async () => {
-  console.log("🚀 STARTING GOOGLE-POWERED INGESTION (v2)...");
+  console.log("🚀 STARTING INGESTION (v3)...");
   
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-  const googleKey = process.env.GOOGLE_API_KEY!;
 
-  if (!supabaseUrl || !supabaseKey || !googleKey) {
+  if (!supabaseUrl || !supabaseKey) {
     console.error("❌ MISSING KEYS. Check .env file.");
     return;
   }
 
-  // 1. SETUP GOOGLE EMBEDDINGS (Newer Model)
-  const embeddings = new GoogleGenerativeAIEmbeddings({
-    apiKey: googleKey,
-    modelName: "text-embedding-004", // ✅ Updated to newer model
-    taskType: TaskType.RETRIEVAL_DOCUMENT, // ✅ Required for better accuracy
-  });
+  const client = createClient(supabaseUrl, supabaseKey);
 
-  // 2. SANITY CHECK: Test the API Key immediately
+  // 1. SETUP EMBEDDINGS (shared with the query path, picked by EMBEDDING_MODEL)
+  let embeddings;
   try {
-    console.log("🔍 Testing Google API connection...");
+    embeddings = createEmbeddings("document");
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    return;
+  }
+
+  // 2. SANITY CHECK: Test the model immediately (dimensions are checked against the model spec)
+  try {
+    console.log(`🔍 Testing embedding model ${embeddings.spec.id}...`);
     const testVector = await embeddings.embedQuery("hello world");
-    console.log(`✅ Google API is working! (Vector dimensions: ${testVector.length})`);
-    if (testVector.length !== 768) {
-      console.error(`❌ CRITICAL: Vector size is ${testVector.length}, but DB expects 768. Check your SQL table.`);
-      return;
-    }
+    console.log(`✅ Embeddings are working! (Vector dimensions: ${testVector.length})`);
   } catch (err: any) {
-    console.error("❌ Google API Failed. Check your GOOGLE_API_KEY.");
+    console.error(`❌ Embedding model ${embeddings.spec.id} failed. Check its API key.`);
     console.error("   Error details:", err.message);
     return;
   }
 
+  // 3. EMBEDDING SPACE: vectors go into this model's own space (refused if its dimension differs)
+  try {
+    await registerEmbeddingSpace(client, embeddings.spec);
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    return;
+  }
+
   const booksDir = path.join(process.cwd(), "books");
   const files = fs.readdirSync(booksDir).filter(f => f.endsWith(".pdf") || f.endsWith(".epub") || f.endsWith(".txt"));
   console.log(`📚 Found ${files.length} books.`);
 
-  const client = createClient(supabaseUrl, supabaseKey);
-
   for (const file of files) {
     console.log(`\n🔹 Processing: ${file}...`);
     try {
@@ -76,8 +81,8 @@ const run = async () => {
 
       const splits = await new RecursiveCharacterTextSplitter({ chunkSize: 1000, chunkOverlap: 200 }).splitDocuments(docs);
       
-      await SupabaseVectorStore.fromDocuments(splits, embeddings, { client, tableName: "documents", queryName: "match_documents" });
-      console.log(`   ✅ Uploaded ${splits.length} chunks.`);
+      const stored = await storeChunks(client, embeddings, splits);
+      console.log(`   ✅ Uploaded ${stored} chunks.`);
     } catch (err: any) {
       console.error(`   ❌ FAILED: ${err.message}`);
     }
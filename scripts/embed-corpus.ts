@@ -0,0 +1,84 @@
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { createEmbeddings } from "../lib/embeddings/providers";
+import { registerEmbeddingSpace } from "../lib/embeddings/guard";
+import { storeEmbeddings } from "../lib/embeddings/store";
+
+// Backfills the embedding space of EMBEDDING_MODEL for chunks that are already
+// in the corpus, so a new model can be trialled without re-ingesting or wiping
+// anything. Safe to re-run: chunks that already have a vector are skipped.
+//
+//   EMBEDDING_MODEL=local:hashing-384 npm run embed-corpus
+
+const BATCH_SIZE = 100;
+
+const run = async () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error("❌ MISSING KEYS. Check .env file.");
+    return;
+  }
+
+  const client = createClient(supabaseUrl, supabaseKey);
+
+  let embeddings;
+  try {
+    embeddings = createEmbeddings("document");
+    console.log(`🚀 BACKFILLING EMBEDDING SPACE: ${embeddings.spec.id} (${embeddings.spec.dimensions} dims)`);
+    await registerEmbeddingSpace(client, embeddings.spec);
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    return;
+  }
+
+  let lastId = 0;
+  let embedded = 0;
+
+  while (true) {
+    const { data: chunks, error } = await client
+      .from("documents")
+      .select("id, content")
+      .gt("id", lastId)
+      .order("id")
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error("❌ Could not read documents:", error.message);
+      return;
+    }
+    if (!chunks || chunks.length === 0) break;
+    lastId = chunks[chunks.length - 1].id;
+
+    // Skip chunks that already have a vector in this space
+    const { data: existing, error: existingError } = await client
+      .from("document_embeddings")
+      .select("document_id")
+      .eq("model_id", embeddings.spec.id)
+      .in("document_id", chunks.map(chunk => chunk.id));
+
+    if (existingError) {
+      console.error("❌ Could not read existing embeddings:", existingError.message);
+      return;
+    }
+    const done = new Set((existing || []).map(row => row.document_id));
+    const missing = chunks.filter(chunk => !done.has(chunk.id));
+    if (missing.length === 0) continue;
+
+    try {
+      const vectors = await embeddings.embedDocuments(missing.map(chunk => chunk.content));
+      await storeEmbeddings(client, embeddings, missing.map(chunk => chunk.id), vectors);
+      embedded += missing.length;
+      console.log(`   ✅ Embedded ${embedded} chunks (up to id ${lastId}).`);
+    } catch (err: any) {
+      console.error(`   ❌ FAILED at id ${lastId}: ${err.message}`);
+      return;
+    }
+  }
+
+  console.log(`\n🎉 DONE! ${embedded} chunks embedded with ${embeddings.spec.id}.`);
+  console.log(`   Set EMBEDDING_MODEL=${embeddings.spec.id} to switch the live query path over.`);
+};
+
+run();
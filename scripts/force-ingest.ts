@@ -2,9 +2,10 @@ import "dotenv/config";
 import fs from "fs";
 import path from "path";
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
-import { HuggingFaceInferenceEmbeddings } from "@langchain/community/embeddings/hf";
 import { createClient } from "@supabase/supabase-js";
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
+import { createEmbeddings } from "../lib/embeddings/providers";
+import { registerEmbeddingSpace } from "../lib/embeddings/guard";
+import { storeChunks } from "../lib/embeddings/store";
 
 const run = async () => {
   console.log("🚀 STARTING FORCE INGESTION...");
@@ -12,13 +13,15 @@ const run = async () => {
   // 1. SETUP KEYS
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-  const hfToken = process.env.HUGGINGFACEHUB_API_TOKEN!;
 
-  if (!supabaseUrl || !supabaseKey || !hfToken) {
+  if (!supabaseUrl || !supabaseKey) {
     console.error("❌ MISSING KEYS. Check .env file.");
     return;
   }
 
+  // Same embedding model as the query path (EMBEDDING_MODEL)
+  const embeddings = createEmbeddings("document");
+
   // 2. READ FILE DIRECTLY
   // Make sure your file is named exactly this inside the 'books' folder!
   const filePath = path.join(process.cwd(), "books", "sample-decision-guide.txt");
@@ -40,25 +43,20 @@ const run = async () => {
     chunkOverlap: 200,
   });
   const docs = await splitter.createDocuments([text]);
+  docs.forEach(doc => {
+    doc.metadata = { ...doc.metadata, source: "sample-decision-guide.txt" };
+  });
   console.log(`   - Created ${docs.length} chunks.`);
 
   // 4. EMBED & UPLOAD
   console.log("🧠 Connecting to AI & Database...");
-  const embeddings = new HuggingFaceInferenceEmbeddings({
-    apiKey: hfToken,
-    model: "sentence-transformers/all-MiniLM-L6-v2",
-  });
-
   const client = createClient(supabaseUrl, supabaseKey);
 
   try {
+    await registerEmbeddingSpace(client, embeddings.spec);
     console.log("📤 Uploading to Supabase...");
-    await SupabaseVectorStore.fromDocuments(docs, embeddings, {
-      client,
-      tableName: "documents",
-      queryName: "match_documents",
-    });
-    console.log("✅ SUCCESS! Data is now in Supabase.");
+    const stored = await storeChunks(client, embeddings, docs);
+    console.log(`✅ SUCCESS! ${stored} chunks are now in Supabase.`);
   } catch (err: any) {
     console.error("❌ UPLOAD FAILED:", err.message);
   }
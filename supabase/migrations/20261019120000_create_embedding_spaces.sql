@@ -0,0 +1,203 @@
+/*
+  # Multiple Embedding Spaces
+
+  ## Overview
+  `documents.embedding` could only hold vectors from one model with one fixed size.
+  This migration moves vectors into a separate `document_embeddings` table keyed by
+  (document, model), so several embedding models can live side by side. A new model
+  can be trialled by backfilling its space, and the live query path switches over by
+  changing `EMBEDDING_MODEL` without wiping the corpus.
+
+  ## 1. New Tables
+    - `embedding_models`
+      - `id` (text, primary key): Model id as used by the app, e.g. `google:text-embedding-004`
+      - `dimensions` (int): Vector size every embedding of this model must have
+      - `created_at` (timestamptz)
+    - `document_embeddings`
+      - `document_id` (bigint): The chunk in `documents`
+      - `model_id` (text): The model that produced the vector
+      - `embedding` (vector): Untyped column; the size is enforced per model by a trigger
+      - `created_at` (timestamptz)
+      - Primary key (`document_id`, `model_id`): at most one vector per chunk per model
+
+  ## 2. Indexes
+    - One partial HNSW index per model, on `embedding::vector(<dimensions>)` and
+      restricted to that model's rows. Created by `register_embedding_model`.
+
+  ## 3. Functions
+    - `register_embedding_model(embedding_model, embedding_dimensions)`
+      - Adds a model to the registry and creates its index. Idempotent; raises if the
+        model is already registered with another dimension.
+      - `SECURITY DEFINER`, so the service role can create the index on a table it
+        doesn't own. Only the service role may execute it.
+    - `match_documents_for_model(embedding_model, query_embedding, match_threshold, match_count)`
+      - Same contract as `match_documents`, searching only the given model's space.
+      - Raises if the model is unknown or the query vector has the wrong size.
+
+  ## 4. Data
+    - Registers the built-in models and copies existing `documents.embedding` vectors
+      into the space of the model that produced them (the `embedding_model` metadata tag,
+      or the vector size for untagged chunks).
+    - `documents.embedding` becomes nullable and is no longer written. The original
+      `match_documents` keeps working on it for older clients.
+
+  ## 5. Security
+    - Enable RLS on both tables, public read access, authenticated insert (same as `documents`)
+*/
+
+CREATE TABLE IF NOT EXISTS embedding_models (
+  id text PRIMARY KEY,
+  dimensions int NOT NULL CHECK (dimensions > 0 AND dimensions <= 2000),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS document_embeddings (
+  document_id bigint NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  model_id text NOT NULL REFERENCES embedding_models(id),
+  embedding vector NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (document_id, model_id)
+);
+
+-- Refuse vectors whose size doesn't match their model
+CREATE OR REPLACE FUNCTION check_embedding_dimensions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  expected int;
+BEGIN
+  SELECT em.dimensions INTO expected FROM embedding_models em WHERE em.id = NEW.model_id;
+  IF vector_dims(NEW.embedding) <> expected THEN
+    RAISE EXCEPTION 'Embedding for model % has % dimensions, expected %',
+      NEW.model_id, vector_dims(NEW.embedding), expected;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS document_embeddings_dimensions ON document_embeddings;
+CREATE TRIGGER document_embeddings_dimensions
+  BEFORE INSERT OR UPDATE ON document_embeddings
+  FOR EACH ROW EXECUTE FUNCTION check_embedding_dimensions();
+
+-- Register a model and create its partial HNSW index. Runs with the owner's
+-- rights because only the table owner may create indexes on it; the ingest
+-- scripts call it over RPC with the service role key.
+CREATE OR REPLACE FUNCTION register_embedding_model(
+  embedding_model text,
+  embedding_dimensions int
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  registered int;
+BEGIN
+  INSERT INTO embedding_models (id, dimensions)
+  VALUES (embedding_model, embedding_dimensions)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT em.dimensions INTO registered FROM embedding_models em WHERE em.id = embedding_model;
+  IF registered <> embedding_dimensions THEN
+    RAISE EXCEPTION 'Embedding model % is registered with % dimensions, not %',
+      embedding_model, registered, embedding_dimensions;
+  END IF;
+
+  EXECUTE format(
+    'CREATE INDEX IF NOT EXISTS %I ON document_embeddings USING hnsw ((embedding::vector(%s)) vector_cosine_ops) WHERE model_id = %L',
+    'document_embeddings_' || substr(md5(embedding_model), 1, 12) || '_idx',
+    embedding_dimensions,
+    embedding_model
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION register_embedding_model(text, int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION register_embedding_model(text, int) TO service_role;
+
+-- Semantic search within one model's embedding space
+CREATE OR REPLACE FUNCTION match_documents_for_model(
+  embedding_model text,
+  query_embedding vector,
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dims int;
+BEGIN
+  SELECT em.dimensions INTO dims FROM embedding_models em WHERE em.id = embedding_model;
+  IF dims IS NULL THEN
+    RAISE EXCEPTION 'Unknown embedding model %', embedding_model;
+  END IF;
+  IF vector_dims(query_embedding) <> dims THEN
+    RAISE EXCEPTION 'Query embedding has % dimensions, model % expects %',
+      vector_dims(query_embedding), embedding_model, dims;
+  END IF;
+
+  -- The cast and the literal model id match the partial index for this model
+  RETURN QUERY EXECUTE format(
+    'SELECT d.id, d.content, d.metadata, (1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)))::float AS similarity
+     FROM document_embeddings e
+     JOIN documents d ON d.id = e.document_id
+     WHERE e.model_id = %2$L
+       AND 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $2
+     ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+     LIMIT $3',
+    dims,
+    embedding_model
+  ) USING query_embedding, match_threshold, match_count;
+END;
+$$;
+
+-- Built-in models (see lib/embeddings/models.ts)
+SELECT register_embedding_model('google:text-embedding-004', 768);
+SELECT register_embedding_model('huggingface:all-MiniLM-L6-v2', 384);
+SELECT register_embedding_model('local:hashing-384', 384);
+
+-- Move existing vectors into the space of the model that produced them
+INSERT INTO document_embeddings (document_id, model_id, embedding)
+SELECT
+  documents.id,
+  COALESCE(
+    documents.metadata->>'embedding_model',
+    CASE vector_dims(documents.embedding) WHEN 768 THEN 'google:text-embedding-004' ELSE 'huggingface:all-MiniLM-L6-v2' END
+  ),
+  documents.embedding
+FROM documents
+WHERE documents.embedding IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE documents ALTER COLUMN embedding DROP NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE embedding_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read embedding models"
+  ON embedding_models
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read document embeddings"
+  ON document_embeddings
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert document embeddings"
+  ON document_embeddings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
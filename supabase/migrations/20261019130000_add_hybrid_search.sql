@@ -0,0 +1,106 @@
+/*
+  # Hybrid Keyword + Vector Search
+
+  ## Overview
+  Cosine similarity alone misses exact terms users type verbatim ("Eisenhower matrix",
+  "OODA loop"). This migration adds full-text search over `documents.content` and a
+  search function that fuses the lexical and vector rankings with reciprocal rank
+  fusion (RRF): score = semantic_weight / (rrf_k + vector_rank) + full_text_weight / (rrf_k + keyword_rank).
+
+  ## 1. Columns
+    - `documents.fts` (tsvector): Generated from `content` with the `english` configuration
+
+  ## 2. Indexes
+    - GIN index on `documents.fts`
+
+  ## 3. Functions
+    - `match_documents_hybrid(embedding_model, query_text, query_embedding, match_threshold, match_count, full_text_weight, semantic_weight, rrf_k)`
+      - Vector channel: nearest chunks in the model's embedding space above `match_threshold`
+      - Keyword channel: chunks matching any term of `query_text`, ranked by `ts_rank_cd`
+        (cover density, so chunks containing the terms close together rank first)
+      - Each channel contributes up to `match_count * 2` candidates before fusion
+      - Returns: id, content, metadata, similarity, vector_rank, keyword_rank, rrf_score.
+        A NULL rank means that channel did not surface the chunk.
+*/
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS documents_fts_idx ON documents USING gin (fts);
+
+CREATE OR REPLACE FUNCTION match_documents_hybrid(
+  embedding_model text,
+  query_text text,
+  query_embedding vector,
+  match_threshold float DEFAULT 0.1,
+  match_count int DEFAULT 10,
+  full_text_weight float DEFAULT 1,
+  semantic_weight float DEFAULT 1,
+  rrf_k int DEFAULT 50
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float,
+  vector_rank int,
+  keyword_rank int,
+  rrf_score float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dims int;
+  keyword_query tsquery;
+BEGIN
+  SELECT em.dimensions INTO dims FROM embedding_models em WHERE em.id = embedding_model;
+  IF dims IS NULL THEN
+    RAISE EXCEPTION 'Unknown embedding model %', embedding_model;
+  END IF;
+  IF vector_dims(query_embedding) <> dims THEN
+    RAISE EXCEPTION 'Query embedding has % dimensions, model % expects %',
+      vector_dims(query_embedding), embedding_model, dims;
+  END IF;
+
+  -- OR of the query's (already stemmed) lexemes: a long problem statement would
+  -- almost never match if every term were required
+  keyword_query := to_tsquery('simple', array_to_string(ARRAY(
+    SELECT quote_literal(lexeme) FROM unnest(tsvector_to_array(to_tsvector('english', query_text))) AS lexeme
+  ), ' | '));
+
+  RETURN QUERY EXECUTE format(
+    'WITH semantic AS (
+       SELECT e.document_id AS id,
+              row_number() OVER (ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS rank
+       FROM document_embeddings e
+       WHERE e.model_id = %2$L
+         AND 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+       ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+       LIMIT $4 * 2
+     ),
+     keyword AS (
+       SELECT d.id,
+              row_number() OVER (ORDER BY ts_rank_cd(d.fts, $2) DESC) AS rank
+       FROM documents d
+       WHERE d.fts @@ $2
+       ORDER BY ts_rank_cd(d.fts, $2) DESC
+       LIMIT $4 * 2
+     )
+     SELECT d.id,
+            d.content,
+            d.metadata,
+            COALESCE(1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)), 0)::float AS similarity,
+            s.rank::int AS vector_rank,
+            k.rank::int AS keyword_rank,
+            (COALESCE($6 / ($7 + s.rank), 0.0) + COALESCE($5 / ($7 + k.rank), 0.0))::float AS rrf_score
+     FROM semantic s
+     FULL OUTER JOIN keyword k ON s.id = k.id
+     JOIN documents d ON d.id = COALESCE(s.id, k.id)
+     LEFT JOIN document_embeddings e ON e.document_id = d.id AND e.model_id = %2$L
+     ORDER BY rrf_score DESC
+     LIMIT $4',
+    dims,
+    embedding_model
+  ) USING query_embedding, keyword_query, match_threshold, match_count, full_text_weight, semantic_weight, rrf_k;
+END;
+$$;
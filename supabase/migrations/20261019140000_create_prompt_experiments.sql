@@ -0,0 +1,113 @@
+/*
+  # Prompt Versions and A/B Experiments
+
+  ## Overview
+  The reasoning prompt is versioned in `lib/prompts/registry.ts`. This migration
+  stores each version's text the first time it is used, records which version
+  answered every request, and collects user feedback, so versions can be compared
+  when traffic is split between them with `PROMPT_EXPERIMENT`.
+
+  ## 1. New Tables
+    - `prompt_versions`
+      - `id` (text, primary key): Version id, e.g. `reasoning-v1`
+      - `sha256` (text): Hash of the prompt text
+      - `template` (text): The prompt text, with the output format instructions filled in
+      - `created_at` (timestamptz)
+      - Rows are immutable: updates and deletes are refused by a trigger
+    - `prompt_runs`
+      - `id` (uuid, primary key): Returned to the client as `runId`
+      - `prompt_id`, `prompt_sha256`: The version that produced the answer. The pair
+        references `prompt_versions`, so a run can't be recorded against text that
+        differs from what the version was first stored with
+      - `experiment` (text, nullable): The experiment the request was bucketed in
+      - `mode` (text), `model` (text, nullable): How the answer was produced
+      - `recommendation` (text), `abstained` (boolean), `confidence` (real, nullable)
+      - `created_at` (timestamptz)
+    - `prompt_feedback`
+      - `id` (bigint, primary key)
+      - `run_id` (uuid): The rated run
+      - `helpful` (boolean): Thumbs up or down
+      - `comment` (text, nullable)
+      - `created_at` (timestamptz)
+
+  ## 2. Views
+    - `prompt_experiment_results`: Per experiment and prompt version, the number of
+      runs, abstention rate, mean confidence, number of ratings and share rated helpful
+
+  ## 3. Security
+    - Enable RLS on all three tables with no public policies: rows are written and
+      read by the API routes with the service role key
+    - The view is `security_invoker`, so it is subject to the same RLS as its tables
+*/
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id text PRIMARY KEY,
+  sha256 text NOT NULL,
+  template text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (id, sha256)
+);
+
+-- Prompt text must never change under results that were produced with it
+CREATE OR REPLACE FUNCTION refuse_prompt_version_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Prompt version % is immutable; add a new version instead', OLD.id;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prompt_versions_immutable ON prompt_versions;
+CREATE TRIGGER prompt_versions_immutable
+  BEFORE UPDATE OR DELETE ON prompt_versions
+  FOR EACH ROW EXECUTE FUNCTION refuse_prompt_version_changes();
+
+CREATE TABLE IF NOT EXISTS prompt_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_id text NOT NULL,
+  prompt_sha256 text NOT NULL,
+  experiment text,
+  mode text NOT NULL,
+  model text,
+  recommendation text NOT NULL,
+  abstained boolean NOT NULL DEFAULT false,
+  confidence real,
+  created_at timestamptz DEFAULT now(),
+  FOREIGN KEY (prompt_id, prompt_sha256) REFERENCES prompt_versions (id, sha256)
+);
+
+CREATE INDEX IF NOT EXISTS prompt_runs_experiment_idx ON prompt_runs (experiment, prompt_id);
+
+CREATE TABLE IF NOT EXISTS prompt_feedback (
+  id bigserial PRIMARY KEY,
+  run_id uuid NOT NULL REFERENCES prompt_runs(id) ON DELETE CASCADE,
+  helpful boolean NOT NULL,
+  comment text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS prompt_feedback_run_idx ON prompt_feedback (run_id);
+
+-- Feedback is summed per run first so runs with several ratings aren't counted twice
+CREATE OR REPLACE VIEW prompt_experiment_results
+WITH (security_invoker = true) AS
+SELECT
+  r.experiment,
+  r.prompt_id,
+  count(*) AS runs,
+  avg(CASE WHEN r.abstained THEN 1.0 ELSE 0.0 END) AS abstention_rate,
+  avg(r.confidence) AS mean_confidence,
+  coalesce(sum(f.ratings), 0) AS ratings,
+  sum(f.helpful)::numeric / nullif(sum(f.ratings), 0) AS helpful_rate
+FROM prompt_runs r
+LEFT JOIN (
+  SELECT run_id, count(*) AS ratings, count(*) FILTER (WHERE helpful) AS helpful
+  FROM prompt_feedback
+  GROUP BY run_id
+) f ON f.run_id = r.id
+GROUP BY r.experiment, r.prompt_id;
+
+ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_feedback ENABLE ROW LEVEL SECURITY;
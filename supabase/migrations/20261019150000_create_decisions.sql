@@ -0,0 +1,58 @@
+/*
+  # Decision History
+
+  ## Overview
+  Stores every analysis the decide route answers, so past decisions survive a page
+  refresh and can be searched and reopened from the `/history` page.
+
+  ## 1. New Tables
+    - `decisions`
+      - `id` (uuid, primary key): Returned to the client as `decisionId`
+      - `problem` (text): The problem as the user wrote it
+      - `options` (text[]): The options, in the order they were given
+      - `clarifications` (jsonb): Answers to the clarifying questions, `[]` when none
+      - `mode` (text), `template` (text, nullable): How the problem was analysed
+      - `chunk_ids` (bigint[]): The `documents` rows retrieved as sources, in citation-key order
+      - `model` (text, nullable): `provider:model`, null when no model was called
+      - `prompt_id`, `prompt_sha256`: The reasoning prompt version
+      - `run_id` (uuid, nullable): The matching `prompt_runs` row, when it was stored
+      - `recommendation` (text), `abstained` (boolean), `confidence` (real, nullable)
+      - `result` (jsonb): The full result as returned to the client
+      - `search` (tsvector, generated): Problem and recommendation, for full-text search
+      - `created_at` (timestamptz)
+
+  ## 2. Indexes
+    - `created_at` descending, for the newest-first listing
+    - GIN index on `search`
+
+  ## 3. Security
+    - Enable RLS with no public policies: rows are written and read by the API routes
+      with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS decisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  problem text NOT NULL,
+  options text[] NOT NULL,
+  clarifications jsonb NOT NULL DEFAULT '[]'::jsonb,
+  mode text NOT NULL,
+  template text,
+  chunk_ids bigint[] NOT NULL DEFAULT '{}',
+  model text,
+  prompt_id text NOT NULL,
+  prompt_sha256 text NOT NULL,
+  run_id uuid REFERENCES prompt_runs(id) ON DELETE SET NULL,
+  recommendation text NOT NULL,
+  abstained boolean NOT NULL DEFAULT false,
+  confidence real,
+  result jsonb NOT NULL,
+  search tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', problem || ' ' || recommendation)
+  ) STORED,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS decisions_created_at_idx ON decisions (created_at DESC);
+CREATE INDEX IF NOT EXISTS decisions_search_idx ON decisions USING gin (search);
+
+ALTER TABLE decisions ENABLE ROW LEVEL SECURITY;
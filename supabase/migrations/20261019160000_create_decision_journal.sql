@@ -0,0 +1,64 @@
+/*
+  # Decision Journal
+
+  ## Overview
+  Users come back to a saved decision to record what they actually chose, how it
+  turned out and how satisfied they are. Each visit adds a journal entry, so a
+  decision can be reviewed several times as its consequences unfold. The latest
+  entry per decision feeds the calibration dashboard, which compares the engine's
+  stated confidence with real outcomes.
+
+  ## 1. New Tables
+    - `decision_reviews`
+      - `id` (bigint, primary key)
+      - `decision_id` (uuid): The reviewed `decisions` row
+      - `chosen_option` (text): What the user actually did; may be none of the options
+      - `outcome` (text): `pending` (too early to tell), `good`, `mixed` or `bad`
+      - `satisfaction` (smallint, nullable): 1-5
+      - `notes` (text, nullable)
+      - `next_review_on` (date, nullable): When to look at the decision again
+      - `created_at` (timestamptz): The review date
+
+  ## 2. Views
+    - `decision_outcomes`: The latest review of every reviewed decision, with the
+      decision's recommendation, confidence and whether the user followed it
+
+  ## 3. Security
+    - Enable RLS with no public policies: rows are written and read by the API routes
+      with the service role key
+    - The view is `security_invoker`, so it is subject to the same RLS as its tables
+*/
+
+CREATE TABLE IF NOT EXISTS decision_reviews (
+  id bigserial PRIMARY KEY,
+  decision_id uuid NOT NULL REFERENCES decisions(id) ON DELETE CASCADE,
+  chosen_option text NOT NULL,
+  outcome text NOT NULL CHECK (outcome IN ('pending', 'good', 'mixed', 'bad')),
+  satisfaction smallint CHECK (satisfaction BETWEEN 1 AND 5),
+  notes text,
+  next_review_on date,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS decision_reviews_decision_idx ON decision_reviews (decision_id, created_at DESC);
+
+CREATE OR REPLACE VIEW decision_outcomes
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (r.decision_id)
+  r.decision_id,
+  d.problem,
+  d.recommendation,
+  d.confidence,
+  d.abstained,
+  d.created_at AS decided_at,
+  r.chosen_option,
+  NOT d.abstained AND r.chosen_option = d.recommendation AS followed,
+  r.outcome,
+  r.satisfaction,
+  r.next_review_on,
+  r.created_at AS reviewed_at
+FROM decision_reviews r
+JOIN decisions d ON d.id = r.decision_id
+ORDER BY r.decision_id, r.created_at DESC;
+
+ALTER TABLE decision_reviews ENABLE ROW LEVEL SECURITY;